@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findMergeGroups,
+  namesLikelyMatch,
+  normalizeBusinessName,
+  recordMergeDecisions,
+  resolveBusinessName,
+  type BusinessAliases
+} from './businessNames';
+
+const spend = (businessName: string, totalSpend = 1000) => ({ businessName, totalSpend });
+const empty = (): BusinessAliases => ({ aliases: {}, rejected: [] });
+
+describe('normalizeBusinessName', () => {
+  it('drops case, punctuation and legal suffixes', () => {
+    expect(normalizeBusinessName('The Acxiom Corp.')).toBe('acxiom');
+    expect(normalizeBusinessName('ACXIOM, Inc')).toBe('acxiom');
+  });
+
+  it('spells out ampersands', () => {
+    expect(normalizeBusinessName('Bell & Sward')).toBe('bell and sward');
+  });
+
+  it('keeps a name made only of stopwords', () => {
+    expect(normalizeBusinessName('The Company')).toBe('the company');
+  });
+});
+
+describe('namesLikelyMatch', () => {
+  it('matches near-identical spellings and extended names', () => {
+    expect(namesLikelyMatch('conway regional', 'conway regional health')).toBe(true);
+    expect(namesLikelyMatch('simmons bank', 'simmons bnk')).toBe(true);
+  });
+
+  it('leaves short or unrelated names apart', () => {
+    expect(namesLikelyMatch('abc', 'abd')).toBe(false);
+    expect(namesLikelyMatch('simmons bank', 'arvest bank')).toBe(false);
+  });
+});
+
+describe('findMergeGroups', () => {
+  it('approves spellings that normalize to the same name', () => {
+    const [group] = findMergeGroups([spend('Acxiom Corp', 500), spend('ACXIOM, Inc.', 2000)], [], empty());
+    expect(group.approved).toBe(true);
+    expect(group.canonical).toBe('ACXIOM, Inc.');
+  });
+
+  it('leaves fuzzy matches like "Bell & Sward" and "Bell & Company" unapproved', () => {
+    const groups = findMergeGroups([spend('Bell & Sward'), spend('Bell & Company')], [], empty());
+    expect(groups).toHaveLength(1);
+    expect(groups[0].approved).toBe(false);
+  });
+
+  it('prefers the directory spelling as canonical', () => {
+    const [group] = findMergeGroups([spend('Conway Regional Health', 9000)], [spend('Conway Regional', 100)], empty());
+    expect(group.canonical).toBe('Conway Regional');
+    expect(group.names.find(n => n.name === 'Conway Regional')?.inDirectory).toBe(true);
+  });
+
+  it('never proposes a rejected pair again', () => {
+    const groups = findMergeGroups([spend('Bell & Sward'), spend('Bell & Company')], [], empty());
+    const aliases = recordMergeDecisions(empty(), groups);
+    expect(findMergeGroups([spend('Bell & Sward'), spend('Bell & Company')], [], aliases)).toHaveLength(0);
+  });
+});
+
+describe('recordMergeDecisions', () => {
+  it('repoints earlier aliases when their canonical name is merged again', () => {
+    const first = findMergeGroups([spend('Conway Regional'), spend('Conway Regional Health')], [], empty());
+    first[0].canonical = 'Conway Regional';
+    first[0].approved = true;
+    const afterFirst = recordMergeDecisions(empty(), first);
+    expect(resolveBusinessName('Conway Regional Health', afterFirst)).toBe('Conway Regional');
+
+    const second = findMergeGroups([spend('Conway Regional Medical Center')], [spend('Conway Regional')], afterFirst);
+    second[0].canonical = 'Conway Regional Medical Center';
+    second[0].approved = true;
+    const afterSecond = recordMergeDecisions(afterFirst, [second[0]]);
+
+    expect(resolveBusinessName('Conway Regional Health', afterSecond)).toBe('Conway Regional Medical Center');
+    expect(resolveBusinessName('Conway Regional', afterSecond)).toBe('Conway Regional Medical Center');
+    expect(Object.values(afterSecond.aliases)).not.toContain('Conway Regional');
+  });
+
+  it('leaves the original table untouched', () => {
+    const before = empty();
+    recordMergeDecisions(before, findMergeGroups([spend('Acxiom Corp'), spend('Acxiom Inc')], [], before));
+    expect(before).toEqual(empty());
+  });
+});
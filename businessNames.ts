@@ -0,0 +1,126 @@
+// Matching member names across spend imports, and the aliases users approve along the way
+
+// Approved merges map a normalized name to the canonical one; rejected pairs are never proposed again
+export interface BusinessAliases {
+  aliases: Record<string, string>;
+  rejected: string[];
+}
+
+// Names the matcher thinks are one member, awaiting a user's decision
+export interface MergeGroup {
+  id: string;
+  names: { name: string; spend: number; inDirectory: boolean }[];
+  canonical: string;
+  approved: boolean;
+}
+
+// The only fields of a member's spend the matcher reads
+type NamedSpend = { businessName: string; totalSpend: number };
+
+// Suffixes that never distinguish one member from another
+const NAME_STOPWORDS = new Set(['the', 'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'llc', 'llp', 'lp', 'ltd', 'limited', 'pllc', 'pa', 'pc']);
+
+// "The Acxiom Corp." and "ACXIOM, Inc" both become "acxiom"
+export const normalizeBusinessName = (name: string) => {
+  const words = name
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  const kept = words.filter(word => !NAME_STOPWORDS.has(word));
+  return (kept.length ? kept : words).join(' ');
+};
+
+export const resolveBusinessName = (name: string, aliases: BusinessAliases) =>
+  aliases.aliases[normalizeBusinessName(name)] ?? name;
+
+export const namePairKey = (a: string, b: string) =>
+  [a.trim().toLowerCase(), b.trim().toLowerCase()].sort().join('|');
+
+const editDistance = (a: string, b: string) => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Same normalized name, a near-identical spelling, or one name extending the other ("Conway Regional" / "Conway Regional Health")
+export const namesLikelyMatch = (a: string, b: string) => {
+  if (a === b) return true;
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  if (shorter.split(' ').length >= 2 && longer.startsWith(`${shorter} `)) return true;
+  if (shorter.length < 5 || longer.length - shorter.length > 2) return false;
+  return 1 - editDistance(a, b) / longer.length >= 0.85;
+};
+
+// Candidate merges across the import and, when adding a year, the directory it joins.
+// Only names sharing a first letter are compared, which keeps large directories fast.
+export const findMergeGroups = (imported: NamedSpend[], directory: NamedSpend[], aliases: BusinessAliases): MergeGroup[] => {
+  const rejected = new Set(aliases.rejected);
+  const entries = new Map<string, MergeGroup['names'][number]>();
+  directory.forEach(biz => entries.set(biz.businessName, { name: biz.businessName, spend: biz.totalSpend, inDirectory: true }));
+  imported.forEach(biz => {
+    const existing = entries.get(biz.businessName);
+    entries.set(biz.businessName, { name: biz.businessName, spend: (existing?.spend || 0) + biz.totalSpend, inDirectory: !!existing });
+  });
+
+  const names = Array.from(entries.keys());
+  const keys = names.map(normalizeBusinessName);
+  const parent = names.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+
+  const byInitial = new Map<string, number[]>();
+  keys.forEach((key, i) => byInitial.set(key[0] || '', [...(byInitial.get(key[0] || '') || []), i]));
+  byInitial.forEach(indexes => {
+    for (let x = 0; x < indexes.length; x++) {
+      for (let y = x + 1; y < indexes.length; y++) {
+        const i = indexes[x];
+        const j = indexes[y];
+        if (rejected.has(namePairKey(names[i], names[j]))) continue;
+        if (namesLikelyMatch(keys[i], keys[j])) parent[find(i)] = find(j);
+      }
+    }
+  });
+
+  const groups = new Map<number, MergeGroup['names']>();
+  names.forEach((name, i) => groups.set(find(i), [...(groups.get(find(i)) || []), entries.get(name)!]));
+  return Array.from(groups.values())
+    .filter(group => group.length > 1)
+    .map((group, index) => {
+      const sorted = [...group].sort((a, b) => Number(b.inDirectory) - Number(a.inDirectory) || b.spend - a.spend);
+      // Only spellings that normalize to the same name start approved; fuzzy matches wait for a person
+      const exact = new Set(sorted.map(n => normalizeBusinessName(n.name))).size === 1;
+      return { id: `merge-${index}`, names: sorted, canonical: sorted[0].name, approved: exact };
+    });
+};
+
+// Approved groups become aliases; rejected ones are remembered pair by pair.
+// Aliases that pointed at a merged name are repointed too, so every alias stays a single hop.
+export const recordMergeDecisions = (aliases: BusinessAliases, groups: MergeGroup[]): BusinessAliases => {
+  const next: BusinessAliases = { aliases: { ...aliases.aliases }, rejected: [...aliases.rejected] };
+  groups.forEach(group => {
+    const canonical = group.canonical.trim();
+    if (group.approved && canonical) {
+      const merged = new Set([...group.names.map(n => n.name), canonical].map(normalizeBusinessName));
+      Object.entries(next.aliases).forEach(([key, target]) => {
+        if (merged.has(normalizeBusinessName(target))) next.aliases[key] = canonical;
+      });
+      merged.forEach(key => {
+        next.aliases[key] = canonical;
+      });
+    } else {
+      group.names.forEach((a, i) => group.names.slice(i + 1).forEach(b => {
+        const key = namePairKey(a.name, b.name);
+        if (!next.rejected.includes(key)) next.rejected.push(key);
+      }));
+    }
+  });
+  return next;
+};
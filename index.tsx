@@ -1,5 +1,5 @@
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { createRoot } from 'react-dom/client';
 import { 
   FileText, 
@@ -16,15 +16,97 @@ import {
   AlertCircle,
   Eye,
   History,
+  Columns3,
+  Trash2,
+  RefreshCw,
+  GitCompare,
+  RotateCcw,
+  ChevronUp,
+  ChevronDown,
+  Plus,
+  Pencil,
+  Check,
+  Undo2,
+  Wand2,
+  Loader2,
+  Layers,
+  Square,
+  CheckSquare,
+  XCircle,
+  Clock,
+  X,
+  Archive,
+  BookOpen,
+  Ticket,
+  Settings,
+  Scale,
+  Merge,
+  BarChart3,
+  ArrowUpDown,
+  Filter,
+  ImagePlus,
+  Images,
+  Gauge,
+  Receipt,
+  Palette,
+  UserRound,
   Image as ImageIcon
 } from 'lucide-react';
-import { GoogleGenAI } from '@google/genai';
+import { Type, type Schema, type Part } from '@google/genai';
+import * as XLSX from 'xlsx';
+import JSZip from 'jszip';
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  Footer,
+  HeadingLevel,
+  ImageRun,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  VerticalAlign,
+  WidthType
+} from 'docx';
+import {
+  findMergeGroups,
+  normalizeBusinessName,
+  recordMergeDecisions,
+  resolveBusinessName,
+  type BusinessAliases,
+  type MergeGroup
+} from './businessNames';
+import { parsePartialJson } from './partialJson';
 
 // --- Types ---
+// One year of a business's spend, as imported from that year's file
+interface YearSpend {
+  year: number;
+  totalSpend: number;
+  products: Record<string, number>;
+}
+
+// totalSpend and products are the latest year's (zero when the member lapsed); history holds every imported year
 interface BusinessSpend {
   businessName: string;
   totalSpend: number;
   products: Record<string, number>;
+  year?: number;
+  history?: YearSpend[];
+}
+
+// Latest year against the one before it, plus the compound rate over every year on file
+interface SpendTrend {
+  years: YearSpend[];
+  changePct: number | null;
+  annualGrowthPct: number | null;
+  retained: string[];
+  lapsed: string[];
+  added: string[];
 }
 
 interface ProposalData {
@@ -39,11 +121,313 @@ interface ProposalData {
   }[];
   recommendations: {
     program: string;
+    tier?: string;
     reasoning: string;
     suggestedInvestment: string;
     imagePrompt?: string;
     imageUrl?: string;
   }[];
+  notes?: string;
+  budget?: BudgetPlan;
+  usage?: GenerationUsage;
+  // Year the proposal was written for, from its template
+  fiscalYear?: number;
+}
+
+interface ColumnMapping {
+  format: 'wide' | 'long';
+  businessIdx: number;
+  productIdx: number;
+  spendIdx: number;
+  totalIdx: number;
+}
+
+// A single piece of a proposal that can be regenerated on its own
+type ProposalSection =
+  | { kind: 'summary' }
+  | { kind: 'analysis' }
+  | { kind: 'review'; index: number }
+  | { kind: 'recommendation'; index: number };
+
+// The sections that carry a picture
+type ImageSlot = Extract<ProposalSection, { index: number }>;
+
+type ImageState = 'loading' | 'failed';
+
+interface ProposalHooks {
+  signal?: AbortSignal;
+  // The proposal as far as the model has written it, for showing it while it streams in
+  onPartial?: (partial: ProposalData) => void;
+  // The complete text, before any images
+  onDraft?: (draft: ProposalData) => void;
+  onImage?: (slot: ImageSlot, result: { url?: string; error?: string }) => void;
+  onImageSaved?: (item: MediaItem) => void;
+  // Also hears about calls made by attempts that end up failing
+  onUsage?: (call: CallUsage) => void;
+}
+
+interface BatchJob {
+  businessName: string;
+  status: 'queued' | 'running' | 'done' | 'failed';
+  error?: string;
+  proposalId?: string;
+  cost?: number;
+}
+
+interface ProgramPdf {
+  name: string;
+  data: string;
+}
+
+interface ProgramTier {
+  name: string;
+  price: number | null;
+  benefits?: string;
+  // Sponsors this tier can take; null or missing means unlimited
+  slots?: number | null;
+}
+
+// A program as extracted from the Blueprint PDFs, then reviewed and corrected by staff
+interface CatalogProgram {
+  id: string;
+  name: string;
+  description: string;
+  tiers: ProgramTier[];
+  attendance: string;
+  audience: string;
+  dates: string;
+  availability: 'available' | 'limited' | 'sold-out' | 'unknown';
+  sourcePdf: string;
+}
+
+// A named generation prompt; the body uses {{variables}} filled per business, the rules are also enforced on the response
+interface PromptTemplate {
+  id: string;
+  name: string;
+  body: string;
+  fiscalYear: number;
+  tone: string;
+  recommendationCount: number;
+  pinnedPrograms: string[];
+  excludedPrograms: string[];
+}
+
+interface PromptSettings {
+  templates: PromptTemplate[];
+  activeTemplateId: string;
+}
+
+// Prior-year spend at or above minSpend grows by growthPct; the highest matching band wins
+interface GrowthBand {
+  minSpend: number;
+  growthPct: number;
+}
+
+interface BudgetRules {
+  enabled: boolean;
+  bands: GrowthBand[];
+  // Extra growth for each product beyond the first, up to the max - broad members have more room to expand
+  breadthBonusPct: number;
+  maxBreadthBonusPct: number;
+  maxIncrease: number;
+  maxMultiple: number;
+  minimumBudget: number;
+  minInvestment: number;
+  roundTo: number;
+}
+
+// The sized target for one business, stored with the proposal it constrained
+interface BudgetPlan {
+  previousTotal: number;
+  growthPct: number;
+  target: number;
+  minInvestment: number;
+}
+
+// Everything a generated proposal is checked against beyond its JSON shape
+interface ProposalRules {
+  catalog: CatalogProgram[];
+  template?: PromptTemplate;
+  budget?: BudgetPlan;
+}
+
+// A business's claim on one slot of a program tier. Held and sold claims take the slot; proposed ones are pipeline only
+interface SlotClaim {
+  id: string;
+  programId: string;
+  tierName: string;
+  businessName: string;
+  status: 'proposed' | 'held' | 'sold';
+  proposalId?: string;
+  updatedAt: number;
+}
+
+// Every generation is kept as its own record; the newest one per business is what opens by default
+interface StoredProposal {
+  id: string;
+  businessName: string;
+  createdAt: number;
+  proposal: ProposalData;
+  // User edits are kept beside the AI draft rather than over it, so they can be discarded
+  edited?: ProposalData;
+  restoredFrom?: string;
+  templateId?: string;
+}
+
+interface DiffPart {
+  kind: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// Raw import grid: first row is the header, `lines` holds the source line/row number of each entry in `rows`
+interface ImportTable {
+  rows: string[][];
+  lines: number[];
+}
+
+// An event photo in the browser's image library; generated images are saved here too so later proposals reuse them
+interface MediaItem {
+  id: string;
+  dataUrl: string;
+  description: string;
+  tags: string[];
+  source: 'generated' | 'uploaded';
+  createdAt: number;
+}
+
+// Sort and filters on the directory grid; saved together as a named segment (the search box is not saved)
+interface DirectoryFilter {
+  sort: 'spend-desc' | 'spend-asc' | 'name-asc' | 'name-desc' | 'programs-desc';
+  minSpend: string;
+  maxSpend: string;
+  bought: string[];
+  notBought: string[];
+}
+
+interface Segment {
+  id: string;
+  name: string;
+  filter: DirectoryFilter;
+}
+
+// Directory-wide figures for the analytics page, all derived from the imported spend
+interface PortfolioStats {
+  totalRevenue: number;
+  memberCount: number;
+  averageSpend: number;
+  medianSpend: number;
+  bands: { label: string; min: number; max: number; members: BusinessSpend[]; revenue: number }[];
+  programs: { name: string; revenue: number; sponsors: BusinessSpend[] }[];
+  topMembers: BusinessSpend[];
+  topShare: number;
+  singleProgram: BusinessSpend[];
+  years: { year: number; revenue: number; members: number }[];
+}
+
+interface ImportIssue {
+  line?: number;
+  message: string;
+}
+
+interface ImportWarning extends ImportIssue {
+  kind: 'negative' | 'duplicate' | 'total-mismatch' | 'formula' | 'non-numeric';
+}
+
+interface ImportReport {
+  rowsRead: number;
+  rowsAccepted: number;
+  skipped: ImportIssue[];
+  warnings: ImportWarning[];
+}
+
+interface SpendImport {
+  businesses: BusinessSpend[];
+  report: ImportReport;
+}
+
+// One model call as reported by the server; cost is null when the server has no price for the model
+interface CallUsage {
+  model: string;
+  ok: boolean;
+  promptTokens: number;
+  outputTokens: number;
+  images: number;
+  ms: number;
+  cost: number | null;
+}
+
+interface GenerationUsage {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  outputTokens: number;
+  images: number;
+  ms: number;
+  cost: number;
+  models: string[];
+}
+
+interface UsageTotals {
+  calls: number;
+  failures: number;
+  promptTokens: number;
+  outputTokens: number;
+  images: number;
+  cost: number;
+}
+
+interface UsageReport {
+  month: string;
+  totals: UsageTotals;
+  days: (UsageTotals & { day: string })[];
+  users: (UsageTotals & { user: string; name: string })[];
+  // USD for everyone together, set on the server with MONTHLY_BUDGET; null when there is none
+  budget: number | null;
+}
+
+interface UsageSettings {
+  userName: string;
+  warnAtPct: number;
+}
+
+// Optional staff-entered context about a member beyond their spend; fed into generation and shown on the cover
+interface MemberProfile {
+  logoDataUrl: string;
+  industry: string;
+  size: string;
+  contactName: string;
+  contactTitle: string;
+  contactEmail: string;
+  contactPhone: string;
+  goals: string;
+  meetingNotes: string;
+  updatedAt: number;
+}
+
+// Keyed by business name, so a profile follows its business through merges like saved proposals do
+type MemberProfiles = Record<string, MemberProfile>;
+
+type ProposalLayout = 'classic' | 'bold' | 'minimal';
+
+// The sending organization's brand kit; drives the proposal layout, exports and image style
+interface OrganizationProfile {
+  name: string;
+  logoDataUrl: string;
+  primaryColor: string;
+  accentColor: string;
+  headingFont: string;
+  bodyFont: string;
+  proposalTitle: string;
+  fiscalYearLabel: string;
+  senderName: string;
+  senderTitle: string;
+  senderEmail: string;
+  senderPhone: string;
+  website: string;
+  legalFooter: string;
+  imageStyle: string;
+  layout: ProposalLayout;
+  coverPage: boolean;
 }
 
 // --- Utils ---
@@ -97,14 +481,15 @@ const parseCSVLine = (line: string): string[] => {
   return result;
 };
 
-const parseCSV = (text: string): BusinessSpend[] => {
-  const lines = text.split(/\r?\n/).filter(line => line.trim());
-  if (lines.length < 2) return [];
+const findBusinessColumn = (headers: string[]) =>
+  headers.findIndex(h => h === 'member' || h === 'business' || h === 'company' || h === 'name');
 
-  const headers = parseCSVLine(lines[0]).map(h => h.trim().toLowerCase());
+// Guess which columns hold what from the header row (lowercased + trimmed)
+const detectColumnMapping = (headerRow: string[]): ColumnMapping => {
+  const headers = headerRow.map(h => (h || '').trim().toLowerCase());
 
   // Find the member/business column (usually first column or named member/business/company)
-  let businessIdx = headers.findIndex(h => h === 'member' || h === 'business' || h === 'company' || h === 'name');
+  let businessIdx = findBusinessColumn(headers);
   if (businessIdx === -1) businessIdx = 0; // Default to first column
 
   // Check if this is a "wide" format (multiple program columns) or "long" format (product/spend columns)
@@ -112,15 +497,74 @@ const parseCSV = (text: string): BusinessSpend[] => {
   const spendIdx = headers.findIndex(h => h === 'spend' || h === 'amount');
   const totalIdx = headers.findIndex(h => h === 'total');
 
-  const isWideFormat = productIdx === -1 && spendIdx === -1;
+  return {
+    format: productIdx === -1 && spendIdx === -1 ? 'wide' : 'long',
+    businessIdx,
+    productIdx,
+    spendIdx,
+    totalIdx
+  };
+};
+
+// Remembered mappings are keyed by the header row, so re-uploading the same export skips the guesswork
+const COLUMN_MAPPINGS_KEY = 'proposal-architect:column-mappings';
+
+const headerSignature = (headerRow: string[]) =>
+  headerRow.map(h => (h || '').trim().toLowerCase()).join('|');
+
+const loadSavedMapping = (headerRow: string[]): ColumnMapping | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLUMN_MAPPINGS_KEY) || '{}');
+    return saved[headerSignature(headerRow)] || null;
+  } catch {
+    return null;
+  }
+};
+
+const saveMapping = (headerRow: string[], mapping: ColumnMapping) => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(COLUMN_MAPPINGS_KEY) || '{}');
+    saved[headerSignature(headerRow)] = mapping;
+    localStorage.setItem(COLUMN_MAPPINGS_KEY, JSON.stringify(saved));
+  } catch (e) {
+    console.error("Failed to save column mapping:", e);
+  }
+};
+
+// Parses "$1,250.00", "-500" or accounting-style "(1,250)"; blank is 0, anything else is NaN
+const parseAmount = (value: string): number => {
+  const cleaned = value.replace(/[$,\s]/g, '');
+  if (!cleaned) return 0;
+  const negative = /^\(.*\)$/.test(cleaned);
+  const amount = Number(negative ? cleaned.slice(1, -1) : cleaned);
+  return negative ? -amount : amount;
+};
+
+// Shared wide/long parsing over a header row + data rows (from CSV or a workbook sheet)
+const parseSpendTable = (table: ImportTable, mapping: ColumnMapping = detectColumnMapping(table.rows[0] || [])): SpendImport => {
+  const { rows, lines } = table;
+  const report: ImportReport = { rowsRead: Math.max(rows.length - 1, 0), rowsAccepted: 0, skipped: [], warnings: [] };
+  if (rows.length < 2) return { businesses: [], report };
+
+  const rawHeaders = rows[0].map(h => (h || '').trim());
+  const headers = rawHeaders.map(h => h.toLowerCase());
+  const { businessIdx, productIdx, spendIdx, totalIdx } = mapping;
+  const isWideFormat = mapping.format === 'wide';
 
   const map = new Map<string, BusinessSpend>();
+  const firstLine = new Map<string, number>();
+  // Non-numeric program cells are tallied per column so a text column (e.g. "Level") yields one warning, not hundreds
+  const nonNumeric = new Map<number, { count: number; example: string; line: number }>();
 
-  for (let i = 1; i < lines.length; i++) {
-    const cols = parseCSVLine(lines[i]);
+  for (let i = 1; i < rows.length; i++) {
+    const cols = rows[i];
+    const line = lines[i];
     const name = cols[businessIdx]?.trim();
 
-    if (!name) continue;
+    if (!name) {
+      report.skipped.push({ line, message: 'Missing business name' });
+      continue;
+    }
 
     if (isWideFormat) {
       // Wide format: each column header is a program name, cell values are spend amounts
@@ -133,63 +577,5855 @@ const parseCSV = (text: string): BusinessSpend[] => {
         if (!header) continue;
 
         const cellValue = cols[j] || '';
-        // Skip formula cells (start with =) and parse numbers
-        if (cellValue.startsWith('=')) continue;
-        const spend = parseFloat(cellValue.replace(/[$,]/g, '')) || 0;
+        if (!cellValue) continue;
+        // Formula text means the file was exported without values
+        if (cellValue.startsWith('=')) {
+          report.warnings.push({ line, kind: 'formula', message: `Formula ${cellValue} in "${rawHeaders[j]}" for ${name} was ignored. Export values instead of formulas.` });
+          continue;
+        }
+        const spend = parseAmount(cellValue);
+        if (isNaN(spend)) {
+          const tally = nonNumeric.get(j);
+          if (tally) tally.count++;
+          else nonNumeric.set(j, { count: 1, example: cellValue, line });
+          continue;
+        }
+        if (spend < 0) {
+          report.warnings.push({ line, kind: 'negative', message: `Negative amount ${formatCurrency(spend)} in "${rawHeaders[j]}" for ${name} was ignored.` });
+          continue;
+        }
         if (spend > 0) {
-          // Use original case header from line 0
-          const originalHeader = parseCSVLine(lines[0])[j]?.trim() || header;
-          products[originalHeader] = spend;
+          // Use original case header from the header row
+          products[rawHeaders[j] || header] = spend;
           totalSpend += spend;
         }
       }
 
-      if (totalSpend > 0 || Object.keys(products).length > 0) {
-        map.set(name, { businessName: name, totalSpend, products });
+      if (Object.keys(products).length === 0) {
+        report.skipped.push({ line, message: `No spend recorded for ${name}` });
+        continue;
+      }
+
+      if (totalIdx !== -1 && cols[totalIdx]) {
+        const statedTotal = parseAmount(cols[totalIdx]);
+        if (!isNaN(statedTotal) && Math.abs(statedTotal - totalSpend) >= 0.01) {
+          report.warnings.push({ line, kind: 'total-mismatch', message: `${name}: "${rawHeaders[totalIdx]}" says ${formatCurrency(statedTotal)} but programs sum to ${formatCurrency(totalSpend)}.` });
+        }
+      }
+
+      if (map.has(name)) {
+        report.warnings.push({ line, kind: 'duplicate', message: `${name} also appears on line ${firstLine.get(name)}; this row replaces it.` });
+      } else {
+        firstLine.set(name, line);
       }
+      map.set(name, { businessName: name, totalSpend, products });
+      report.rowsAccepted++;
     } else {
       // Long format: separate product and spend columns
-      const productName = productIdx !== -1 ? cols[productIdx]?.trim() : 'Unknown Product';
-      const spend = parseFloat((cols[spendIdx] || '').replace(/[$,]/g, '')) || 0;
+      const productName = (productIdx !== -1 ? cols[productIdx]?.trim() : '') || 'Unknown Product';
+      const rawSpend = cols[spendIdx] || '';
+      if (rawSpend.startsWith('=')) {
+        report.skipped.push({ line, message: `Spend is a formula (${rawSpend}). Export values instead of formulas.` });
+        continue;
+      }
+      const spend = parseAmount(rawSpend);
+      if (isNaN(spend)) {
+        report.skipped.push({ line, message: `Spend "${rawSpend}" is not a number` });
+        continue;
+      }
+      if (spend === 0) {
+        report.skipped.push({ line, message: `Zero spend for ${name}` });
+        continue;
+      }
+      if (spend < 0) {
+        report.warnings.push({ line, kind: 'negative', message: `Negative amount ${formatCurrency(spend)} for ${name} (${productName}) was subtracted from their total.` });
+      }
 
       if (!map.has(name)) {
         map.set(name, { businessName: name, totalSpend: 0, products: {} });
+        firstLine.set(name, line);
       }
 
       const entry = map.get(name)!;
       entry.totalSpend += spend;
-      if (productName) {
-        entry.products[productName] = (entry.products[productName] || 0) + spend;
-      }
+      entry.products[productName] = (entry.products[productName] || 0) + spend;
+      report.rowsAccepted++;
     }
   }
 
+  nonNumeric.forEach(({ count, example, line }, j) => {
+    report.warnings.push({ line, kind: 'non-numeric', message: `${count} non-numeric value${count === 1 ? '' : 's'} in "${rawHeaders[j]}" ignored (e.g. "${example}").` });
+  });
+
+  // Names that only differ by case or spacing are almost always the same member
+  const variants = new Map<string, string[]>();
+  map.forEach((_, name) => {
+    const key = name.toLowerCase().replace(/\s+/g, ' ');
+    variants.set(key, [...(variants.get(key) || []), name]);
+  });
+  variants.forEach(names => {
+    if (names.length < 2) return;
+    report.warnings.push({
+      line: firstLine.get(names[0]),
+      kind: 'duplicate',
+      message: `${names.map(n => `"${n}"`).join(', ')} differ only in case or spacing and will be offered for merging.`
+    });
+  });
+
+  report.skipped.sort((a, b) => (a.line || 0) - (b.line || 0));
+  report.warnings.sort((a, b) => (a.line || 0) - (b.line || 0));
+
+  return {
+    businesses: Array.from(map.values()).sort((a, b) => b.totalSpend - a.totalSpend),
+    report
+  };
+};
+
+const csvToTable = (text: string): ImportTable => {
+  const table: ImportTable = { rows: [], lines: [] };
+  text.split(/\r?\n/).forEach((line, idx) => {
+    if (!line.trim()) return;
+    table.rows.push(parseCSVLine(line));
+    table.lines.push(idx + 1);
+  });
+  return table;
+};
+
+// Excel workbooks - formula cells carry their last calculated value, so we read that instead of the formula text
+const isWorkbookFile = (file: File) => /\.(xlsx|xlsm|xls)$/i.test(file.name);
+
+const readWorkbook = async (file: File): Promise<XLSX.WorkBook> => {
+  const buffer = await file.arrayBuffer();
+  return XLSX.read(buffer, { type: 'array' });
+};
+
+const sheetToTable = (sheet: XLSX.WorkSheet): ImportTable => {
+  const table: ImportTable = { rows: [], lines: [] };
+  if (!sheet['!ref']) return table;
+  const firstRow = XLSX.utils.decode_range(sheet['!ref']).s.r;
+  const rows = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1, raw: true, defval: '', blankrows: true });
+  rows.forEach((row, idx) => {
+    const cells = row.map(cell => (cell === null || cell === undefined ? '' : String(cell).trim()));
+    if (!cells.some(cell => cell)) return;
+    table.rows.push(cells);
+    table.lines.push(firstRow + idx + 1);
+  });
+  return table;
+};
+
+// --- Spend history ---
+// Directories imported before years were tracked were always the 2025 workbook
+const DEFAULT_SPEND_YEAR = 2025;
+
+const spendYear = (biz: BusinessSpend) => biz.year ?? DEFAULT_SPEND_YEAR;
+
+// Export names usually carry the year ("2024 Spend.csv", "Blueprint.xlsx › 2023"); the last one wins so a sheet beats its workbook
+const detectSpendYear = (sourceName: string): number | null => {
+  const years = sourceName.match(/(?<!\d)20\d\d(?!\d)/g);
+  return years ? Number(years[years.length - 1]) : null;
+};
+
+const spendHistory = (biz: BusinessSpend): YearSpend[] => {
+  if (biz.history?.length) return biz.history;
+  return biz.totalSpend > 0 ? [{ year: spendYear(biz), totalSpend: biz.totalSpend, products: biz.products }] : [];
+};
+
+const directoryYears = (businesses: BusinessSpend[]) =>
+  Array.from(new Set(businesses.flatMap(b => spendHistory(b).map(h => h.year)))).sort((a, b) => a - b);
+
+// Adds one year's import to the directory, replacing that year if it was already imported.
+// Everyone's headline spend becomes the latest year on file, so members missing from it show as lapsed.
+const mergeSpendYear = (existing: BusinessSpend[], imported: BusinessSpend[], year: number): BusinessSpend[] => {
+  const histories = new Map<string, YearSpend[]>();
+  existing.forEach(biz => histories.set(biz.businessName, spendHistory(biz).filter(h => h.year !== year)));
+  imported.forEach(biz => {
+    const entry = { year, totalSpend: biz.totalSpend, products: biz.products };
+    histories.set(biz.businessName, [...(histories.get(biz.businessName) || []), entry]);
+  });
+
+  const latest = Math.max(year, ...directoryYears(existing));
+  return Array.from(histories.entries())
+    .filter(([, history]) => history.length > 0)
+    .map(([businessName, history]) => {
+      const sorted = [...history].sort((a, b) => a.year - b.year);
+      const current = sorted.find(h => h.year === latest);
+      return { businessName, totalSpend: current?.totalSpend ?? 0, products: current?.products ?? {}, year: latest, history: sorted };
+    })
+    .sort((a, b) => b.totalSpend - a.totalSpend);
+};
+
+// Years between a member's first spend and the latest year are filled with zeros so gaps read as lapses, not growth
+const spendTrend = (biz: BusinessSpend): SpendTrend | null => {
+  const history = spendHistory(biz);
+  if (!history.length) return null;
+  const byYear = new Map(history.map(h => [h.year, h]));
+  const years: YearSpend[] = [];
+  for (let year = history[0].year; year <= Math.max(spendYear(biz), history[history.length - 1].year); year++) {
+    years.push(byYear.get(year) || { year, totalSpend: 0, products: {} });
+  }
+  if (years.length < 2) return null;
+
+  const current = years[years.length - 1];
+  const previous = years[years.length - 2];
+  const changePct = previous.totalSpend > 0 ? ((current.totalSpend - previous.totalSpend) / previous.totalSpend) * 100 : null;
+  const first = years.find(y => y.totalSpend > 0);
+  const span = first ? current.year - first.year : 0;
+  const annualGrowthPct = first && span > 0 && current.totalSpend > 0
+    ? (Math.pow(current.totalSpend / first.totalSpend, 1 / span) - 1) * 100
+    : null;
+
+  const key = (name: string) => name.trim().toLowerCase();
+  const previousKeys = new Set(Object.keys(previous.products).map(key));
+  const currentKeys = new Set(Object.keys(current.products).map(key));
+  return {
+    years,
+    changePct,
+    annualGrowthPct,
+    retained: Object.keys(current.products).filter(name => previousKeys.has(key(name))),
+    lapsed: Object.keys(previous.products).filter(name => !currentKeys.has(key(name))),
+    added: Object.keys(current.products).filter(name => !previousKeys.has(key(name)))
+  };
+};
+
+const formatChange = (pct: number) => `${pct >= 0 ? '+' : ''}${Math.round(pct)}%`;
+
+const trendLabel = (trend: SpendTrend): { text: string; up: boolean } => {
+  const current = trend.years[trend.years.length - 1];
+  const previous = trend.years[trend.years.length - 2];
+  if (trend.changePct !== null) return { text: `${formatChange(trend.changePct)} vs ${previous.year}`, up: trend.changePct >= 0 };
+  if (current.totalSpend <= 0) return { text: `No spend since ${trend.years.filter(y => y.totalSpend > 0).pop()?.year ?? previous.year}`, up: false };
+  const returning = trend.years.slice(0, -2).some(y => y.totalSpend > 0);
+  return { text: returning ? `Returned in ${current.year}` : `New in ${current.year}`, up: true };
+};
+
+// Plain-text history for prompts, so analysis can speak to the trajectory and not just the latest year
+const spendHistoryContext = (trend: SpendTrend) => [
+  ...trend.years.map(y => `${y.year}: ${formatCurrency(y.totalSpend)} ${JSON.stringify(y.products)}`),
+  trend.changePct !== null ? `Change ${trend.years[trend.years.length - 2].year} to ${trend.years[trend.years.length - 1].year}: ${formatChange(trend.changePct)}` : '',
+  trend.annualGrowthPct !== null && trend.years.length > 2 ? `Compound annual growth: ${formatChange(trend.annualGrowthPct)}` : '',
+  `Retained programs: ${trend.retained.join('; ') || 'None'}`,
+  `Lapsed programs (bought last year, not this year): ${trend.lapsed.join('; ') || 'None'}`,
+  `New programs: ${trend.added.join('; ') || 'None'}`
+].filter(Boolean).join('\n');
+
+// --- Business names ---
+const BUSINESS_ALIASES_KEY = 'proposal-architect:business-aliases';
+
+const loadBusinessAliases = (): BusinessAliases => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BUSINESS_ALIASES_KEY) || 'null');
+    if (saved && saved.aliases && Array.isArray(saved.rejected)) return saved;
+  } catch {
+    // Fall through to an empty table below
+  }
+  return { aliases: {}, rejected: [] };
+};
+
+const saveBusinessAliases = (aliases: BusinessAliases) => {
+  try {
+    localStorage.setItem(BUSINESS_ALIASES_KEY, JSON.stringify(aliases));
+  } catch (e) {
+    console.error("Failed to save business aliases:", e);
+  }
+};
+
+const sumProducts = (a: Record<string, number>, b: Record<string, number>) => {
+  const products = { ...a };
+  Object.entries(b).forEach(([name, amount]) => {
+    products[name] = (products[name] || 0) + amount;
+  });
+  return products;
+};
+
+// Same-year entries are added together, so merging two spellings never drops spend
+const combineBusinesses = (a: BusinessSpend, b: BusinessSpend, businessName: string): BusinessSpend => {
+  const byYear = new Map<number, YearSpend>();
+  [...spendHistory(a), ...spendHistory(b)].forEach(entry => {
+    const existing = byYear.get(entry.year);
+    byYear.set(entry.year, existing
+      ? { year: entry.year, totalSpend: existing.totalSpend + entry.totalSpend, products: sumProducts(existing.products, entry.products) }
+      : entry);
+  });
+  return {
+    businessName,
+    totalSpend: a.totalSpend + b.totalSpend,
+    products: sumProducts(a.products, b.products),
+    year: a.year ?? b.year,
+    ...(a.history || b.history ? { history: Array.from(byYear.values()).sort((x, y) => x.year - y.year) } : {})
+  };
+};
+
+// Renames every business to its canonical name and folds together the ones that land on the same name
+const applyBusinessAliases = (businesses: BusinessSpend[], aliases: BusinessAliases): BusinessSpend[] => {
+  const map = new Map<string, BusinessSpend>();
+  businesses.forEach(biz => {
+    const name = resolveBusinessName(biz.businessName, aliases);
+    const existing = map.get(name);
+    map.set(name, existing ? combineBusinesses(existing, biz, name) : { ...biz, businessName: name });
+  });
   return Array.from(map.values()).sort((a, b) => b.totalSpend - a.totalSpend);
 };
 
-const fileToBase64 = (file: File): Promise<string> => {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.readAsDataURL(file);
-    reader.onload = () => {
-      const base64String = (reader.result as string).split(',')[1];
-      resolve(base64String);
-    };
-    reader.onerror = error => reject(error);
+// Word-level LCS diff; whitespace stays attached to the preceding word so parts can be rendered back to back
+const diffWords = (before: string, after: string): DiffPart[] => {
+  const a = before.match(/\S+\s*/g) || [];
+  const b = after.match(/\S+\s*/g) || [];
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i].trim() === b[j].trim() ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  const push = (kind: DiffPart['kind'], text: string) => {
+    const last = parts[parts.length - 1];
+    if (last && last.kind === kind) last.text += text;
+    else parts.push({ kind, text });
+  };
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i].trim() === b[j].trim()) {
+      push('same', b[j]);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      push('removed', a[i++]);
+    } else {
+      push('added', b[j++]);
+    }
+  }
+  while (i < a.length) push('removed', a[i++]);
+  while (j < b.length) push('added', b[j++]);
+  return parts;
+};
+
+const moveItem = <T,>(items: T[], from: number, to: number): T[] => {
+  if (to < 0 || to >= items.length) return items;
+  const next = [...items];
+  const [item] = next.splice(from, 1);
+  next.splice(to, 0, item);
+  return next;
+};
+
+const formatTimestamp = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-US', { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const formatInvestment = (amount: number) => {
+  return new Intl.NumberFormat('en-US', {
+    style: 'currency',
+    currency: 'USD',
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+};
+
+// Passed to Gemini as the response schema so the shape is enforced at generation time, not just requested in the prompt
+const REVIEW_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    amount: { type: Type.NUMBER },
+    review: { type: Type.STRING },
+    imagePrompt: { type: Type.STRING }
+  },
+  required: ['name', 'amount', 'review']
+};
+
+const RECOMMENDATION_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    program: { type: Type.STRING },
+    tier: { type: Type.STRING },
+    reasoning: { type: Type.STRING },
+    suggestedInvestment: { type: Type.STRING },
+    imagePrompt: { type: Type.STRING }
+  },
+  required: ['program', 'reasoning', 'suggestedInvestment']
+};
+
+const PROPOSAL_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    summary: { type: Type.STRING },
+    analysis: { type: Type.STRING },
+    sponsorshipReviews: { type: Type.ARRAY, items: REVIEW_SCHEMA },
+    recommendations: { type: Type.ARRAY, items: RECOMMENDATION_SCHEMA, minItems: '1' }
+  },
+  required: ['summary', 'analysis', 'sponsorshipReviews', 'recommendations']
+};
+
+const PROGRAM_AVAILABILITY: CatalogProgram['availability'][] = ['available', 'limited', 'sold-out', 'unknown'];
+
+const CATALOG_SCHEMA: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    programs: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          name: { type: Type.STRING },
+          description: { type: Type.STRING },
+          tiers: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                name: { type: Type.STRING },
+                price: { type: Type.NUMBER, nullable: true },
+                benefits: { type: Type.STRING },
+                slots: { type: Type.INTEGER, nullable: true }
+              },
+              required: ['name']
+            }
+          },
+          attendance: { type: Type.STRING },
+          audience: { type: Type.STRING },
+          dates: { type: Type.STRING },
+          availability: { type: Type.STRING, format: 'enum', enum: PROGRAM_AVAILABILITY }
+        },
+        required: ['name', 'tiers']
+      }
+    }
+  },
+  required: ['programs']
+};
+
+// Validators collect problems into `issues` instead of throwing, so they can be fed back to the model on retry
+const requireText = (value: unknown, path: string, issues: string[]) => {
+  if (typeof value === 'string' && value.trim()) return value.trim();
+  issues.push(`${path} must be a non-empty string.`);
+  return '';
+};
+
+const optionalText = (value: unknown) => (typeof value === 'string' && value.trim() ? value.trim() : undefined);
+
+const validateReview = (value: unknown, path: string, issues: string[]): ProposalData['sponsorshipReviews'][number] => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const amount = typeof raw.amount === 'number' ? raw.amount : parseAmount(String(raw.amount ?? ''));
+  if (!Number.isFinite(amount) || raw.amount === undefined || raw.amount === '') {
+    issues.push(`${path}.amount must be a number (got ${JSON.stringify(raw.amount)}).`);
+  }
+  return {
+    name: requireText(raw.name, `${path}.name`, issues),
+    amount: Number.isFinite(amount) ? amount : 0,
+    review: requireText(raw.review, `${path}.review`, issues),
+    imagePrompt: optionalText(raw.imagePrompt)
+  };
+};
+
+const validateRecommendation = (value: unknown, path: string, issues: string[]): ProposalData['recommendations'][number] => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  // Amounts come back as 15000, "15000" or "$15,000" - plain amounts are normalized, ranges and notes are kept as written
+  let suggestedInvestment = '';
+  if (typeof raw.suggestedInvestment === 'number' && Number.isFinite(raw.suggestedInvestment)) {
+    suggestedInvestment = formatInvestment(raw.suggestedInvestment);
+  } else {
+    const text = requireText(raw.suggestedInvestment, `${path}.suggestedInvestment`, issues);
+    const amount = parseAmount(text);
+    suggestedInvestment = text && Number.isFinite(amount) ? formatInvestment(amount) : text;
+  }
+  return {
+    program: requireText(raw.program, `${path}.program`, issues),
+    tier: optionalText(raw.tier),
+    reasoning: requireText(raw.reasoning, `${path}.reasoning`, issues),
+    suggestedInvestment,
+    imagePrompt: optionalText(raw.imagePrompt)
+  };
+};
+
+const findCatalogProgram = (catalog: CatalogProgram[], name: string) => {
+  const key = name.trim().toLowerCase();
+  return catalog.find(p => p.name.trim().toLowerCase() === key);
+};
+
+const findTier = (program: CatalogProgram, name: string) => {
+  const key = name.trim().toLowerCase();
+  return program.tiers.find(t => t.name.trim().toLowerCase() === key);
+};
+
+const pinKey = (text: string) => text.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+// A pin names a program ("Annual Meeting") or a program and one of its tiers ("Annual Meeting Presenting Sponsor",
+// "Annual Meeting - Presenting Sponsor"); null when it matches nothing in the catalog
+const findPinnedOption = (catalog: CatalogProgram[], pin: string): { program: CatalogProgram; tier?: ProgramTier } | null => {
+  const key = pinKey(pin);
+  const program = catalog.find(p => pinKey(p.name) === key);
+  if (program) return { program };
+  for (const p of catalog) {
+    const name = pinKey(p.name);
+    if (!key.startsWith(`${name} `)) continue;
+    const tier = p.tiers.find(t => pinKey(t.name) === key.slice(name.length + 1));
+    if (tier) return { program: p, tier };
+  }
+  return null;
+};
+
+const takesSlot = (claim: SlotClaim) => claim.status === 'held' || claim.status === 'sold';
+
+// Slots left on a tier, ignoring claims by `businessName` so a business is never blocked by its own hold
+const slotsRemaining = (program: CatalogProgram, tier: ProgramTier, claims: SlotClaim[], businessName?: string) => {
+  if (tier.slots == null) return Infinity;
+  const taken = claims.filter(c =>
+    c.programId === program.id && c.tierName === tier.name && takesSlot(c) && c.businessName !== businessName
+  ).length;
+  return Math.max(0, tier.slots - taken);
+};
+
+// The catalog as one business may buy from it: full tiers are dropped, tier slots become what remains,
+// and programs with every tier taken are marked sold out
+const availableCatalog = (catalog: CatalogProgram[], claims: SlotClaim[], businessName: string): CatalogProgram[] =>
+  catalog.map(program => {
+    const tiers = program.tiers
+      .map(tier => {
+        const remaining = slotsRemaining(program, tier, claims, businessName);
+        return { ...tier, slots: remaining === Infinity ? null : remaining };
+      })
+      .filter(tier => tier.slots !== 0);
+    const soldOut = program.tiers.length > 0 && tiers.length === 0;
+    return { ...program, tiers, availability: soldOut ? 'sold-out' : program.availability };
+  });
+
+// Recommendations must name a catalog program that can still be sold; only applies once a catalog exists
+const catalogIssues = (recommendations: ProposalData['recommendations'], catalog: CatalogProgram[], path = 'recommendations') => {
+  if (catalog.length === 0) return [];
+  return recommendations.flatMap((rec, i) => {
+    if (!rec.program) return [];
+    const match = findCatalogProgram(catalog, rec.program);
+    if (!match) return [`${path}[${i}].program "${rec.program}" is not in the program catalog. Use a catalog program name exactly as listed.`];
+    if (match.availability === 'sold-out') return [`${path}[${i}].program "${rec.program}" is sold out. Choose a program that is still available.`];
+    if (match.tiers.length && !(rec.tier && findTier(match, rec.tier))) {
+      return [`${path}[${i}].tier must be one of the available tiers for "${match.name}": ${match.tiers.map(t => `"${t.name}"`).join(', ')}.`];
+    }
+    return [];
   });
 };
 
-// --- Components ---
+// Extraction is best-effort: programs without a name are dropped, every other gap is left for staff to fill in
+const validateCatalog = (value: unknown): Omit<CatalogProgram, 'id' | 'sourcePdf'>[] => {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const programs = Array.isArray(raw.programs) ? raw.programs : [];
+  return programs.flatMap(item => {
+    const program = (item && typeof item === 'object' ? item : {}) as Record<string, unknown>;
+    const name = optionalText(program.name);
+    if (!name) return [];
+    const tiers = (Array.isArray(program.tiers) ? program.tiers : []).flatMap(t => {
+      const tier = (t && typeof t === 'object' ? t : {}) as Record<string, unknown>;
+      const tierName = optionalText(tier.name);
+      if (!tierName) return [];
+      const price = typeof tier.price === 'number' ? tier.price : parseAmount(String(tier.price ?? ''));
+      const slots = typeof tier.slots === 'number' && tier.slots >= 0 ? Math.floor(tier.slots) : null;
+      return [{ name: tierName, price: Number.isFinite(price) ? price : null, benefits: optionalText(tier.benefits), slots }];
+    });
+    const availability = PROGRAM_AVAILABILITY.find(a => a === program.availability) || 'unknown';
+    return [{
+      name,
+      description: optionalText(program.description) || '',
+      tiers,
+      attendance: optionalText(program.attendance) || '',
+      audience: optionalText(program.audience) || '',
+      dates: optionalText(program.dates) || '',
+      availability
+    }];
+  });
+};
 
-const App = () => {
-  const [businesses, setBusinesses] = useState<BusinessSpend[]>([]);
-  const [pdfFiles, setPdfFiles] = useState<{ name: string; data: string }[]>([]);
-  const [selectedBusiness, setSelectedBusiness] = useState<BusinessSpend | null>(null);
-  const [proposal, setProposal] = useState<ProposalData | null>(null);
-  const [loading, setLoading] = useState(false);
-  const [visualLoading, setVisualLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [search, setSearch] = useState('');
+const validateProposal = (value: unknown, rules: ProposalRules = { catalog: [] }): { proposal: ProposalData | null; issues: string[] } => {
+  const issues: string[] = [];
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return { proposal: null, issues: ['The response must be a JSON object.'] };
+  }
+  const raw = value as Record<string, unknown>;
+
+  if (!Array.isArray(raw.sponsorshipReviews)) issues.push('sponsorshipReviews must be an array.');
+  if (!Array.isArray(raw.recommendations)) issues.push('recommendations must be an array.');
+  else if (raw.recommendations.length === 0) issues.push('recommendations must contain at least one item.');
+
+  const proposal: ProposalData = {
+    summary: requireText(raw.summary, 'summary', issues),
+    analysis: requireText(raw.analysis, 'analysis', issues),
+    sponsorshipReviews: (Array.isArray(raw.sponsorshipReviews) ? raw.sponsorshipReviews : [])
+      .map((r, i) => validateReview(r, `sponsorshipReviews[${i}]`, issues)),
+    recommendations: (Array.isArray(raw.recommendations) ? raw.recommendations : [])
+      .map((r, i) => validateRecommendation(r, `recommendations[${i}]`, issues))
+  };
+  issues.push(...catalogIssues(proposal.recommendations, rules.catalog));
+  if (rules.template && Array.isArray(raw.recommendations)) issues.push(...templateIssues(proposal.recommendations, rules.template, rules.catalog));
+  if (rules.budget && Array.isArray(raw.recommendations)) issues.push(...budgetIssues(proposal.recommendations, rules.budget));
+
+  return { proposal: issues.length ? null : proposal, issues };
+};
+
+// Proposal JSON for use as prompt context - image data URLs are dropped, they're large and meaningless to the model
+const proposalContext = (proposal: ProposalData) => JSON.stringify({
+  ...proposal,
+  sponsorshipReviews: proposal.sponsorshipReviews.map(({ imageUrl, ...rest }) => rest),
+  recommendations: proposal.recommendations.map(({ imageUrl, ...rest }) => rest)
+});
+
+// Catalog JSON for use as prompt context - ids and source files mean nothing to the model
+const catalogContext = (catalog: CatalogProgram[]) => JSON.stringify(
+  catalog.map(({ id, sourcePdf, tiers, ...rest }) => ({
+    ...rest,
+    tiers: tiers.map(({ slots, ...tier }) => ({ ...tier, slotsRemaining: slots ?? 'unlimited' }))
+  }))
+);
+
+// --- Portfolio analytics ---
+const SPEND_BANDS: { label: string; min: number; max: number }[] = [
+  { label: 'Under $1K', min: 0, max: 1000 },
+  { label: '$1K–2.5K', min: 1000, max: 2500 },
+  { label: '$2.5K–5K', min: 2500, max: 5000 },
+  { label: '$5K–10K', min: 5000, max: 10000 },
+  { label: '$10K–25K', min: 10000, max: 25000 },
+  { label: '$25K–50K', min: 25000, max: 50000 },
+  { label: '$50K+', min: 50000, max: Infinity }
+];
+
+const TOP_MEMBER_COUNT = 10;
+
+// Members who lapsed entirely in the latest year are left out; they have no current spend to analyse
+const portfolioStats = (businesses: BusinessSpend[]): PortfolioStats => {
+  const active = businesses.filter(b => b.totalSpend > 0).sort((a, b) => b.totalSpend - a.totalSpend);
+  const totalRevenue = active.reduce((sum, b) => sum + b.totalSpend, 0);
+  const spends = active.map(b => b.totalSpend).sort((a, b) => a - b);
+  const middle = Math.floor(spends.length / 2);
+  const medianSpend = !spends.length ? 0 : spends.length % 2 ? spends[middle] : (spends[middle - 1] + spends[middle]) / 2;
+
+  const programs = new Map<string, { name: string; revenue: number; sponsors: BusinessSpend[] }>();
+  active.forEach(biz => Object.entries(biz.products).forEach(([name, amount]) => {
+    if (amount <= 0) return;
+    const entry = programs.get(name) || { name, revenue: 0, sponsors: [] };
+    entry.revenue += amount;
+    entry.sponsors.push(biz);
+    programs.set(name, entry);
+  }));
+
+  const topMembers = active.slice(0, TOP_MEMBER_COUNT);
+  return {
+    totalRevenue,
+    memberCount: active.length,
+    averageSpend: active.length ? totalRevenue / active.length : 0,
+    medianSpend,
+    bands: SPEND_BANDS.map(band => {
+      const members = active.filter(b => b.totalSpend >= band.min && b.totalSpend < band.max);
+      return { ...band, members, revenue: members.reduce((sum, b) => sum + b.totalSpend, 0) };
+    }),
+    programs: Array.from(programs.values()).sort((a, b) => b.revenue - a.revenue),
+    topMembers,
+    topShare: totalRevenue ? topMembers.reduce((sum, b) => sum + b.totalSpend, 0) / totalRevenue : 0,
+    singleProgram: active.filter(b => Object.values(b.products).filter(amount => amount > 0).length === 1),
+    years: directoryYears(businesses).map(year => {
+      const entries = businesses.flatMap(b => spendHistory(b).filter(h => h.year === year && h.totalSpend > 0));
+      return { year, revenue: entries.reduce((sum, h) => sum + h.totalSpend, 0), members: entries.length };
+    })
+  };
+};
+
+// --- Directory filters ---
+const SEGMENTS_KEY = 'proposal-architect:segments';
+
+const DEFAULT_DIRECTORY_FILTER: DirectoryFilter = { sort: 'spend-desc', minSpend: '', maxSpend: '', bought: [], notBought: [] };
+
+const SORT_LABELS: Record<DirectoryFilter['sort'], string> = {
+  'spend-desc': 'Highest spend',
+  'spend-asc': 'Lowest spend',
+  'name-asc': 'Name A–Z',
+  'name-desc': 'Name Z–A',
+  'programs-desc': 'Most programs'
+};
+
+const loadSegments = (): Segment[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SEGMENTS_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch {
+    return [];
+  }
+};
+
+const saveSegments = (segments: Segment[]) => {
+  try {
+    localStorage.setItem(SEGMENTS_KEY, JSON.stringify(segments));
+  } catch (e) {
+    console.error("Failed to save segments:", e);
+  }
+};
+
+const programCount = (biz: BusinessSpend) => Object.values(biz.products).filter(amount => amount > 0).length;
+
+const hasBought = (biz: BusinessSpend, program: string) => (biz.products[program] || 0) > 0;
+
+// How many filters narrow the list; sort order alone does not count
+const activeFilterCount = (filter: DirectoryFilter) =>
+  [filter.minSpend.trim(), filter.maxSpend.trim()].filter(Boolean).length + filter.bought.length + filter.notBought.length;
+
+// Spend bounds that don't parse as amounts are ignored rather than hiding everyone
+const applyDirectoryFilter = (businesses: BusinessSpend[], filter: DirectoryFilter, search = ''): BusinessSpend[] => {
+  const min = filter.minSpend.trim() ? parseAmount(filter.minSpend) : NaN;
+  const max = filter.maxSpend.trim() ? parseAmount(filter.maxSpend) : NaN;
+  const query = search.trim().toLowerCase();
+  const compare: Record<DirectoryFilter['sort'], (a: BusinessSpend, b: BusinessSpend) => number> = {
+    'spend-desc': (a, b) => b.totalSpend - a.totalSpend,
+    'spend-asc': (a, b) => a.totalSpend - b.totalSpend,
+    'name-asc': (a, b) => a.businessName.localeCompare(b.businessName),
+    'name-desc': (a, b) => b.businessName.localeCompare(a.businessName),
+    'programs-desc': (a, b) => programCount(b) - programCount(a) || b.totalSpend - a.totalSpend
+  };
+  return businesses
+    .filter(b => !query || b.businessName.toLowerCase().includes(query))
+    .filter(b => !Number.isFinite(min) || b.totalSpend >= min)
+    .filter(b => !Number.isFinite(max) || b.totalSpend <= max)
+    .filter(b => filter.bought.every(program => hasBought(b, program)))
+    .filter(b => !filter.notBought.some(program => hasBought(b, program)))
+    .sort(compare[filter.sort]);
+};
+
+// "Bought Tinkerfest, not Annual Meeting, $5,000+" - used as the default name when saving a segment
+const describeFilter = (filter: DirectoryFilter) => [
+  filter.bought.length ? `Bought ${filter.bought.join(' + ')}` : '',
+  filter.notBought.length ? `not ${filter.notBought.join(' or ')}` : '',
+  filter.minSpend.trim() && filter.maxSpend.trim()
+    ? `${filter.minSpend.trim()}–${filter.maxSpend.trim()}`
+    : filter.minSpend.trim() ? `${filter.minSpend.trim()}+` : filter.maxSpend.trim() ? `up to ${filter.maxSpend.trim()}` : ''
+].filter(Boolean).join(', ');
+
+// --- Prompt templates ---
+const PROMPT_SETTINGS_KEY = 'proposal-architect:prompt-settings';
+
+const DEFAULT_TEMPLATE: PromptTemplate = {
+  id: 'default',
+  name: 'Standard Proposal',
+  fiscalYear: 2026,
+  tone: 'Confident, consultative and data-driven',
+  recommendationCount: 3,
+  pinnedPrograms: [
+    'Annual Meeting Presenting Sponsor',
+    'Toad Suck Daze Tinkerfest Title Sponsor',
+    'Women in Business Title Sponsor'
+  ],
+  excludedPrograms: [],
+  body: `You are a world-class Senior Sales Executive.
+Create a highly personalized {{fiscalYear}} Sales Proposal for the business: {{businessName}}.
+Write in this tone: {{tone}}.
+
+Here is their {{previousYear}} Spending Data:
+Total Spend: {{totalSpend}}
+Product Breakdown: {{products}}
+
+{{programs}}
+Structure the proposal as follows:
+1. Professional summary of their {{previousYear}} relationship.
+2. "sponsorshipReviews" array: For each {{previousYear}} product, write a brief impact statement.
+3. Identify {{recommendationCount}} specific {{fiscalYear}} "Strategic Recommendations" from the {{programSource}}.
+
+REQUIRED RECOMMENDATIONS (if found in the {{programSource}}, use these):
+{{pinnedPrograms}}
+
+NEVER RECOMMEND:
+{{excludedPrograms}}`
+};
+
+const TEMPLATE_VARIABLES: { name: string; description: string }[] = [
+  { name: 'businessName', description: 'Business the proposal is for' },
+  { name: 'totalSpend', description: 'Prior-year total spend, formatted' },
+  { name: 'products', description: 'Prior-year spend per product (JSON)' },
+  { name: 'fiscalYear', description: 'Year being proposed' },
+  { name: 'previousYear', description: 'Year the spend data covers' },
+  { name: 'tone', description: 'Tone set on the template' },
+  { name: 'recommendationCount', description: 'How many recommendations to make, capped at the catalog programs left' },
+  { name: 'pinnedPrograms', description: 'Pinned programs, one per line' },
+  { name: 'excludedPrograms', description: 'Excluded programs, one per line' },
+  { name: 'programs', description: 'Program catalog, or the instruction to read the PDFs' },
+  { name: 'programSource', description: '"catalog" or "PDF"' }
+];
+
+const loadPromptSettings = (): PromptSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(PROMPT_SETTINGS_KEY) || 'null');
+    if (saved && Array.isArray(saved.templates) && saved.templates.length) return saved;
+  } catch {
+    // Fall through to the default below
+  }
+  return { templates: [DEFAULT_TEMPLATE], activeTemplateId: DEFAULT_TEMPLATE.id };
+};
+
+const savePromptSettings = (settings: PromptSettings) => {
+  try {
+    localStorage.setItem(PROMPT_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save prompt settings:", e);
+  }
+};
+
+const unknownTemplateVariables = (body: string) => {
+  const known = new Set(TEMPLATE_VARIABLES.map(v => v.name));
+  const found = Array.from(body.matchAll(/\{\{\s*(\w+)\s*\}\}/g), m => m[1]);
+  return Array.from(new Set(found.filter(name => !known.has(name))));
+};
+
+const activeTemplate = (settings: PromptSettings) =>
+  settings.templates.find(t => t.id === settings.activeTemplateId) || settings.templates[0] || DEFAULT_TEMPLATE;
+
+// Program lists are edited one per line, so blank and padded lines are tolerated until use
+const templateList = (items: string[]) => items.map(item => item.trim()).filter(Boolean);
+
+const listOrNone = (items: string[]) => {
+  const cleaned = templateList(items);
+  return cleaned.length ? cleaned.map(item => `- ${item}`).join('\n') : '- None';
+};
+
+// With a catalog, never ask for more recommendations than there are unexcluded programs still for sale
+const recommendationTarget = (template: PromptTemplate, catalog: CatalogProgram[]) => {
+  if (!catalog.length) return template.recommendationCount;
+  const excluded = templateList(template.excludedPrograms).map(name => name.toLowerCase());
+  const eligible = catalog.filter(p => p.availability !== 'sold-out' && !excluded.includes(p.name.trim().toLowerCase())).length;
+  return Math.min(template.recommendationCount, eligible);
+};
+
+// Unknown {{variables}} are left in place so a typo shows up in the preview instead of silently vanishing
+const renderPromptTemplate = (template: PromptTemplate, biz: BusinessSpend, catalog: CatalogProgram[]) => {
+  const values: Record<string, string> = {
+    businessName: biz.businessName,
+    totalSpend: formatCurrency(biz.totalSpend),
+    products: JSON.stringify(biz.products),
+    fiscalYear: String(template.fiscalYear),
+    previousYear: String(template.fiscalYear - 1),
+    tone: template.tone,
+    recommendationCount: String(recommendationTarget(template, catalog)),
+    pinnedPrograms: listOrNone(template.pinnedPrograms),
+    excludedPrograms: listOrNone(template.excludedPrograms),
+    programs: catalog.length
+      ? `Here is the ${template.fiscalYear} Program Catalog (JSON). Use program and tier names exactly as listed, size each investment from the tier price, and never recommend a sold-out program. Only the tiers listed still have slots:\n${catalogContext(catalog)}`
+      : 'Review the attached Events Blueprint PDF.',
+    programSource: catalog.length ? 'catalog' : 'PDF'
+  };
+  return template.body.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, name) => values[name] ?? match);
+};
+
+// The response shape is fixed by PROPOSAL_SCHEMA, so it is appended to every template rather than edited in it
+const responseFormatSpec = (template: PromptTemplate) => `
+
+Response Format (Strict JSON):
+{
+  "summary": "Professional executive summary",
+  "analysis": "Data-driven analysis",
+  "sponsorshipReviews": [
+    { "name": "Product Name", "amount": 0.0, "review": "Impact statement", "imagePrompt": "Image description for ${template.fiscalYear - 1} retrospective" }
+  ],
+  "recommendations": [
+    { "program": "Program Name", "tier": "Sponsorship tier", "reasoning": "Strategy linked to PDF text", "suggestedInvestment": "$Amount", "imagePrompt": "Image description for ${template.fiscalYear} program" }
+  ]
+}
+`;
+
+// Count and exclusions always apply; pinned programs can only be checked against a catalog
+const templateIssues = (recommendations: ProposalData['recommendations'], template: PromptTemplate, catalog: CatalogProgram[]) => {
+  const issues: string[] = [];
+  const expected = recommendationTarget(template, catalog);
+  if (recommendations.length !== expected) {
+    issues.push(`recommendations must contain exactly ${expected} items (got ${recommendations.length}).`);
+  }
+  const recommended = recommendations.map(r => r.program.trim().toLowerCase());
+  templateList(template.excludedPrograms).forEach(name => {
+    if (recommended.includes(name.trim().toLowerCase())) issues.push(`"${name}" is excluded and must not be recommended.`);
+  });
+  if (catalog.length) {
+    templateList(template.pinnedPrograms)
+      .flatMap(name => {
+        const pinned = findPinnedOption(catalog, name);
+        return pinned && pinned.program.availability !== 'sold-out' ? [{ name, ...pinned }] : [];
+      })
+      .slice(0, expected)
+      .forEach(({ name, program, tier }) => {
+        const met = recommendations.some(r =>
+          findCatalogProgram([program], r.program) && (!tier || (!!r.tier && findTier(program, r.tier) === tier))
+        );
+        if (!met) {
+          issues.push(tier
+            ? `"${name}" is a required recommendation: recommend "${program.name}" at the "${tier.name}" tier.`
+            : `"${name}" is a required recommendation and is available in the catalog.`);
+        }
+      });
+  }
+  return issues;
+};
+
+// --- Budget sizing ---
+const BUDGET_RULES_KEY = 'proposal-architect:budget-rules';
+
+const DEFAULT_BUDGET_RULES: BudgetRules = {
+  enabled: true,
+  bands: [
+    { minSpend: 0, growthPct: 25 },
+    { minSpend: 2500, growthPct: 15 },
+    { minSpend: 10000, growthPct: 10 },
+    { minSpend: 50000, growthPct: 5 }
+  ],
+  breadthBonusPct: 2,
+  maxBreadthBonusPct: 10,
+  maxIncrease: 25000,
+  maxMultiple: 2,
+  minimumBudget: 1000,
+  minInvestment: 250,
+  roundTo: 250
+};
+
+const loadBudgetRules = (): BudgetRules => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(BUDGET_RULES_KEY) || 'null');
+    if (saved && Array.isArray(saved.bands)) return { ...DEFAULT_BUDGET_RULES, ...saved };
+  } catch {
+    // Fall through to the defaults below
+  }
+  return DEFAULT_BUDGET_RULES;
+};
+
+const saveBudgetRules = (rules: BudgetRules) => {
+  try {
+    localStorage.setItem(BUDGET_RULES_KEY, JSON.stringify(rules));
+  } catch (e) {
+    console.error("Failed to save budget rules:", e);
+  }
+};
+
+// Growth band + product breadth, then the caps, then the floor; the floor wins over the caps for tiny members
+const computeBudget = (biz: BusinessSpend, rules: BudgetRules): BudgetPlan => {
+  const previousTotal = Math.max(0, biz.totalSpend);
+  const band = [...rules.bands]
+    .sort((a, b) => a.minSpend - b.minSpend)
+    .filter(b => previousTotal >= b.minSpend)
+    .pop();
+  const productCount = Object.values(biz.products).filter(amount => amount > 0).length;
+  const breadth = Math.min(rules.maxBreadthBonusPct, rules.breadthBonusPct * Math.max(0, productCount - 1));
+  const growthPct = (band?.growthPct ?? 0) + breadth;
+
+  let target = previousTotal * (1 + growthPct / 100);
+  target = Math.min(target, previousTotal + rules.maxIncrease);
+  if (rules.maxMultiple > 0 && previousTotal > 0) target = Math.min(target, previousTotal * rules.maxMultiple);
+  const step = rules.roundTo > 0 ? rules.roundTo : 1;
+  target = Math.max(rules.minimumBudget, Math.floor(target / step) * step);
+
+  return { previousTotal, growthPct, target, minInvestment: rules.minInvestment };
+};
+
+const recommendationAmount = (rec: ProposalData['recommendations'][number]) => parseAmount(rec.suggestedInvestment || '');
+
+// Sum of the recommendations that are plain amounts; null when none are
+const proposedTotal = (recommendations: ProposalData['recommendations']) => {
+  const amounts = recommendations.map(recommendationAmount).filter(amount => Number.isFinite(amount) && amount > 0);
+  return amounts.length ? amounts.reduce((sum, amount) => sum + amount, 0) : null;
+};
+
+// Proposals saved before the year was recorded were all written from the default template
+const proposalYear = (proposal: ProposalData) => proposal.fiscalYear ?? DEFAULT_TEMPLATE.fiscalYear;
+
+const budgetIssues = (recommendations: ProposalData['recommendations'], plan: BudgetPlan, path = 'recommendations') => {
+  const issues: string[] = [];
+  recommendations.forEach((rec, i) => {
+    const amount = recommendationAmount(rec);
+    if (!rec.suggestedInvestment || !Number.isFinite(amount)) {
+      issues.push(`${path}[${i}].suggestedInvestment must be a single dollar amount, not "${rec.suggestedInvestment}".`);
+    } else if (amount < plan.minInvestment) {
+      issues.push(`${path}[${i}].suggestedInvestment must be at least ${formatInvestment(plan.minInvestment)}.`);
+    }
+  });
+  const total = proposedTotal(recommendations) ?? 0;
+  if (total > plan.target) {
+    issues.push(`The suggested investments total ${formatInvestment(total)}, over the ${formatInvestment(plan.target)} budget. Lower them or choose smaller tiers.`);
+  }
+  return issues;
+};
+
+// Tiers priced above the whole budget are never offered; programs left with no tier drop out
+const affordableCatalog = (catalog: CatalogProgram[], plan: BudgetPlan) =>
+  catalog.flatMap(program => {
+    if (!program.tiers.length) return [program];
+    const tiers = program.tiers.filter(t => t.price == null || t.price <= plan.target);
+    return tiers.length ? [{ ...program, tiers }] : [];
+  });
+
+const budgetPrompt = (plan: BudgetPlan, fiscalYear: number) => `
+
+Budget: their ${fiscalYear} target budget is ${formatInvestment(plan.target)}, sized from ${formatInvestment(plan.previousTotal)} in ${fiscalYear - 1} (${plan.growthPct}% growth).
+Each "suggestedInvestment" must be a single dollar amount of at least ${formatInvestment(plan.minInvestment)}, and together they must total no more than ${formatInvestment(plan.target)}. Aim to use most of the budget.`;
+
+// What to ask for when regenerating one section, and the JSON shape we expect back
+const textSchema = (key: string): Schema => ({
+  type: Type.OBJECT,
+  properties: { [key]: { type: Type.STRING } },
+  required: [key]
+});
+
+const sectionPromptSpec = (section: ProposalSection, proposal: ProposalData): { label: string; format: string; schema: Schema } => {
+  switch (section.kind) {
+    case 'summary':
+      return { label: 'the executive summary ("summary")', format: '{ "summary": "Professional executive summary" }', schema: textSchema('summary') };
+    case 'analysis':
+      return { label: 'the relationship analysis ("analysis")', format: '{ "analysis": "Data-driven analysis" }', schema: textSchema('analysis') };
+    case 'review':
+      return {
+        label: `the impact statement for "${proposal.sponsorshipReviews[section.index]?.name}" (sponsorshipReviews[${section.index}])`,
+        format: '{ "review": "Impact statement" }',
+        schema: textSchema('review')
+      };
+    case 'recommendation':
+      return {
+        label: `${proposalYear(proposal)} recommendation priority ${section.index + 1} (recommendations[${section.index}]). Do not repeat a program already recommended elsewhere in the proposal`,
+        format: `{ "program": "Program Name", "tier": "Sponsorship tier", "reasoning": "Strategy linked to PDF text", "suggestedInvestment": "$Amount", "imagePrompt": "Image description for ${proposalYear(proposal)} program" }`,
+        schema: RECOMMENDATION_SCHEMA
+      };
+  }
+};
+
+const toPdfParts = (pdfs: ProgramPdf[]) => pdfs.map(pdf => ({
+  inlineData: {
+    mimeType: 'application/pdf',
+    data: pdf.data
+  }
+}));
+
+const fileToBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => {
+      const base64String = (reader.result as string).split(',')[1];
+      resolve(base64String);
+    };
+    reader.onerror = error => reject(error);
+  });
+};
+
+// --- Generation usage ---
+const USAGE_SETTINGS_KEY = 'proposal-architect:usage-settings';
+
+const DEFAULT_USAGE_SETTINGS: UsageSettings = { userName: '', warnAtPct: 80 };
+
+const loadUsageSettings = (): UsageSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(USAGE_SETTINGS_KEY) || 'null');
+    if (saved && typeof saved === 'object') return { ...DEFAULT_USAGE_SETTINGS, ...saved };
+  } catch {
+    // Fall through to the defaults below
+  }
+  return DEFAULT_USAGE_SETTINGS;
+};
+
+const saveUsageSettings = (settings: UsageSettings) => {
+  try {
+    localStorage.setItem(USAGE_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save usage settings:", e);
+  }
+};
+
+const addUsage = (total: GenerationUsage | undefined, call: CallUsage): GenerationUsage => {
+  const base = total || { calls: 0, failures: 0, promptTokens: 0, outputTokens: 0, images: 0, ms: 0, cost: 0, models: [] };
+  return {
+    calls: base.calls + 1,
+    failures: base.failures + (call.ok ? 0 : 1),
+    promptTokens: base.promptTokens + call.promptTokens,
+    outputTokens: base.outputTokens + call.outputTokens,
+    images: base.images + call.images,
+    ms: base.ms + call.ms,
+    cost: base.cost + (call.cost ?? 0),
+    models: call.model && !base.models.includes(call.model) ? [...base.models, call.model] : base.models
+  };
+};
+
+// Fractions of a cent matter for single calls, so small amounts keep three decimals
+const formatCost = (usd: number) => `$${usd.toFixed(usd < 10 ? 3 : 2)}`;
+
+const formatTokens = (tokens: number) => (tokens >= 10000 ? `${Math.round(tokens / 1000)}k` : tokens.toLocaleString('en-US'));
+
+// Months follow the server's usage log, which is in UTC
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+const describeUsage = (usage: GenerationUsage) =>
+  `${formatCost(usage.cost)} · ${usage.calls} call${usage.calls === 1 ? '' : 's'}${usage.failures ? ` (${usage.failures} failed)` : ''} · ${usage.images} image${usage.images === 1 ? '' : 's'} · ${formatTokens(usage.promptTokens + usage.outputTokens)} tokens · ${(usage.ms / 1000).toFixed(1)}s`;
+
+const averageProposalCost = (entries: StoredProposal[]) => {
+  const costs = entries.map(e => e.proposal.usage?.cost).filter((cost): cost is number => typeof cost === 'number' && cost > 0);
+  return costs.length ? costs.reduce((sum, cost) => sum + cost, 0) / costs.length : null;
+};
+
+// Shown once this month's spend by everyone crosses the warning threshold
+const budgetAlert = (report: UsageReport | null, settings: UsageSettings) => {
+  if (!report?.budget) return null;
+  const spent = report.totals.cost;
+  if (spent < report.budget * (settings.warnAtPct / 100)) return null;
+  return {
+    over: spent >= report.budget,
+    text: `Generation spend this month is ${formatCost(spent)} of the ${formatCost(report.budget)} monthly budget (${Math.round((spent / report.budget) * 100)}%).`
+  };
+};
+
+// A confirmation message when the estimated cost of new proposals would take the month over budget
+const budgetOverrun = (report: UsageReport | null, proposals: number, averageCost: number | null) => {
+  if (!report?.budget) return null;
+  const estimate = proposals * (averageCost ?? 0);
+  const projected = report.totals.cost + estimate;
+  if (projected <= report.budget) return null;
+  const work = proposals === 1 ? 'This proposal' : `These ${proposals} proposals`;
+  return estimate > 0
+    ? `${work} will cost about ${formatCost(estimate)}, taking this month's generation spend to ${formatCost(projected)}, over the ${formatCost(report.budget)} budget. Continue?`
+    : `This month's generation spend (${formatCost(report.totals.cost)}) is already over the ${formatCost(report.budget)} budget. Continue?`;
+};
+
+// --- Organization profile ---
+const ORGANIZATION_PROFILE_KEY = 'proposal-architect:organization-profile';
+
+// The defaults reproduce the original indigo proposal, so an unconfigured install looks the same as before
+const DEFAULT_ORGANIZATION_PROFILE: OrganizationProfile = {
+  name: '',
+  logoDataUrl: '',
+  primaryColor: '#4f46e5',
+  accentColor: '#6366f1',
+  headingFont: 'Inter',
+  bodyFont: 'Inter',
+  proposalTitle: '{{fiscalYear}} Strategic Partnership Proposal',
+  fiscalYearLabel: '{{fiscalYear}} Fiscal Planning Cycle',
+  senderName: '',
+  senderTitle: '',
+  senderEmail: '',
+  senderPhone: '',
+  website: '',
+  legalFooter: '',
+  imageStyle: 'Cinematic lighting, corporate aesthetic, clean composition',
+  layout: 'classic',
+  coverPage: false
+};
+
+const PROPOSAL_LAYOUTS: Record<ProposalLayout, { label: string; description: string }> = {
+  classic: { label: 'Classic', description: 'Light header with value tiles and rounded image cards.' },
+  bold: { label: 'Bold', description: 'Full-width color band header and ruled section titles.' },
+  minimal: { label: 'Minimal', description: 'Type-led, square cards, no tints or icons.' }
+};
+
+// Google Fonts families and the weights each one actually ships; asking for a missing weight fails the whole request
+const BRAND_FONTS: { name: string; weights: string; serif: boolean }[] = [
+  { name: 'Inter', weights: '300;400;500;600;700;900', serif: false },
+  { name: 'Lato', weights: '300;400;700;900', serif: false },
+  { name: 'Montserrat', weights: '300;400;500;600;700;900', serif: false },
+  { name: 'Poppins', weights: '300;400;500;600;700;900', serif: false },
+  { name: 'Merriweather', weights: '300;400;700;900', serif: true },
+  { name: 'Playfair Display', weights: '400;500;600;700;900', serif: true },
+  { name: 'Lora', weights: '400;500;600;700', serif: true },
+  { name: 'Source Serif 4', weights: '300;400;500;600;700;900', serif: true }
+];
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+const loadOrganizationProfile = (): OrganizationProfile => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(ORGANIZATION_PROFILE_KEY) || 'null');
+    if (saved && typeof saved === 'object') {
+      const profile = { ...DEFAULT_ORGANIZATION_PROFILE, ...saved };
+      if (!HEX_COLOR.test(profile.primaryColor)) profile.primaryColor = DEFAULT_ORGANIZATION_PROFILE.primaryColor;
+      if (!HEX_COLOR.test(profile.accentColor)) profile.accentColor = DEFAULT_ORGANIZATION_PROFILE.accentColor;
+      if (!(profile.layout in PROPOSAL_LAYOUTS)) profile.layout = DEFAULT_ORGANIZATION_PROFILE.layout;
+      // Profiles saved before titles took {{fiscalYear}} hold the old defaults with the year written in
+      if (profile.proposalTitle === '2026 Strategic Partnership Proposal') profile.proposalTitle = DEFAULT_ORGANIZATION_PROFILE.proposalTitle;
+      if (profile.fiscalYearLabel === '2026 Fiscal Planning Cycle') profile.fiscalYearLabel = DEFAULT_ORGANIZATION_PROFILE.fiscalYearLabel;
+      return profile;
+    }
+  } catch {
+    // Fall through to the defaults below
+  }
+  return DEFAULT_ORGANIZATION_PROFILE;
+};
+
+// The title and label may say {{fiscalYear}}; each proposal fills in the year it was written for
+const profileForProposal = (profile: OrganizationProfile, proposal: ProposalData): OrganizationProfile => {
+  const fill = (text: string) => text.replace(/\{\{\s*fiscalYear\s*\}\}/g, String(proposalYear(proposal)));
+  return { ...profile, proposalTitle: fill(profile.proposalTitle), fiscalYearLabel: fill(profile.fiscalYearLabel) };
+};
+
+const saveOrganizationProfile = (profile: OrganizationProfile) => {
+  try {
+    localStorage.setItem(ORGANIZATION_PROFILE_KEY, JSON.stringify(profile));
+  } catch (e) {
+    console.error("Failed to save organization profile:", e);
+  }
+};
+
+const fontStack = (font: string) =>
+  `'${font}', ${BRAND_FONTS.find(f => f.name === font)?.serif ? "Georgia, 'Times New Roman', serif" : "-apple-system, 'Segoe UI', Helvetica, Arial, sans-serif"}`;
+
+const brandFontsHref = (profile: OrganizationProfile) => {
+  const families = BRAND_FONTS.filter(f => f.name === profile.headingFont || f.name === profile.bodyFont);
+  return `https://fonts.googleapis.com/css2?${families.map(f => `family=${f.name.replace(/ /g, '+')}:wght@${f.weights}`).join('&')}&display=swap`;
+};
+
+// Mixes a brand color toward white for panels and hairlines, e.g. 0.94 of the way gives an indigo-50 style tint
+const tintColor = (hex: string, amount: number) => {
+  const value = parseInt(hex.slice(1), 16);
+  return `#${[16, 8, 0].map(shift => {
+    const channel = (value >> shift) & 255;
+    return Math.round(channel + (255 - channel) * amount).toString(16).padStart(2, '0');
+  }).join('')}`;
+};
+
+// CSS custom properties read by the brand-* classes in index.html and by the exported HTML
+const brandVariables = (profile: OrganizationProfile): Record<string, string> => ({
+  '--brand-primary': profile.primaryColor,
+  '--brand-accent': profile.accentColor,
+  '--brand-tint': tintColor(profile.primaryColor, 0.94),
+  '--brand-soft': tintColor(profile.primaryColor, 0.85),
+  '--brand-heading-font': fontStack(profile.headingFont),
+  '--brand-body-font': fontStack(profile.bodyFont)
+});
+
+const senderContact = (profile: OrganizationProfile) =>
+  [profile.senderEmail, profile.senderPhone, profile.website].map(s => s.trim()).filter(Boolean);
+
+const hasSender = (profile: OrganizationProfile) => !!profile.senderName.trim() || senderContact(profile).length > 0;
+
+// Logos are kept in browser storage, so uploads are redrawn no larger than a header needs
+// Images are stored as data URLs, so they are scaled down to fit `maxSize` on their longer side first
+const imageDataUrlFromFile = (file: File, maxSize: number, type = 'image/png', quality?: number): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const img = new Image();
+    img.onload = () => {
+      URL.revokeObjectURL(url);
+      const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+      canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error(`Could not read ${file.name}.`));
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL(type, quality));
+    };
+    img.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`${file.name} is not an image this browser can read.`));
+    };
+    img.src = url;
+  });
+
+// PNG keeps logo transparency
+const logoDataUrlFromFile = (file: File, maxSize = 480) => imageDataUrlFromFile(file, maxSize);
+
+// Photos only ever fill a 16:9 card or a page-wide DOCX image, so 1600px of JPEG is plenty
+const photoDataUrlFromFile = (file: File) => imageDataUrlFromFile(file, 1600, 'image/jpeg', 0.85);
+
+// --- Member profiles ---
+const MEMBER_SIZES = ['Sole proprietor', '2–10 employees', '11–50 employees', '51–200 employees', '201–1,000 employees', 'Over 1,000 employees'];
+
+const EMPTY_MEMBER_PROFILE: MemberProfile = {
+  logoDataUrl: '',
+  industry: '',
+  size: '',
+  contactName: '',
+  contactTitle: '',
+  contactEmail: '',
+  contactPhone: '',
+  goals: '',
+  meetingNotes: '',
+  updatedAt: 0
+};
+
+const memberContactLine = (member: MemberProfile) =>
+  [member.contactName.trim(), member.contactTitle.trim()].filter(Boolean).join(', ');
+
+// Renames profiles to their canonical business; when two land on one name, the canonical's own fields win and blanks are filled from the other
+const resolveMemberProfiles = (profiles: MemberProfiles, aliases: BusinessAliases): MemberProfiles => {
+  const next: MemberProfiles = {};
+  Object.entries(profiles)
+    .sort(([a], [b]) => Number(resolveBusinessName(a, aliases) !== a) - Number(resolveBusinessName(b, aliases) !== b))
+    .forEach(([name, profile]) => {
+      const canonical = resolveBusinessName(name, aliases);
+      const existing = next[canonical];
+      if (!existing) {
+        next[canonical] = profile;
+        return;
+      }
+      const filled: MemberProfile = { ...existing };
+      const fill = <K extends keyof MemberProfile>(key: K) => {
+        if (!filled[key]) filled[key] = profile[key];
+      };
+      (Object.keys(EMPTY_MEMBER_PROFILE) as (keyof MemberProfile)[]).forEach(fill);
+      next[canonical] = { ...filled, updatedAt: Math.max(existing.updatedAt, profile.updatedAt) };
+    });
+  return next;
+};
+
+// Only the fields staff filled in are sent; an empty profile adds nothing to the prompt
+const memberPrompt = (member?: MemberProfile | null) => {
+  if (!member) return '';
+  const lines = [
+    member.industry.trim() && `- Industry: ${member.industry.trim()}`,
+    member.size && `- Size: ${member.size}`,
+    memberContactLine(member) && `- Primary contact: ${memberContactLine(member)}`,
+    member.goals.trim() && `- Stated goals:\n${member.goals.trim()}`,
+    member.meetingNotes.trim() && `- Notes from past meetings:\n${member.meetingNotes.trim()}`
+  ].filter(Boolean);
+  if (!lines.length) return '';
+  return `
+
+Member Profile (entered by our staff):
+${lines.join('\n')}
+Write for this member specifically: frame the summary and analysis around their industry and stated goals, not just their spend figures, and in each recommendation's reasoning say which goal or meeting note it answers. Address the primary contact by name where it reads naturally. Do not invent goals they have not stated.`;
+};
+
+// --- Gemini ---
+// Every model call goes through server.js, which holds the API key; the browser only knows these endpoints
+const CLIENT_ID_KEY = 'proposal-architect:client-id';
+const RATE_LIMIT_RETRIES = 4;
+
+// Identifies this browser to the server's per-user rate limit
+const clientId = () => {
+  try {
+    let id = localStorage.getItem(CLIENT_ID_KEY);
+    if (!id) {
+      id = createId();
+      localStorage.setItem(CLIENT_ID_KEY, id);
+    }
+    return id;
+  } catch {
+    return '';
+  }
+};
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const isRateLimitError = (err: unknown) => {
+  if (!err || typeof err !== 'object') return false;
+  const { status, message } = err as { status?: unknown; message?: unknown };
+  if (status === 429) return true;
+  return typeof message === 'string' && /429|RESOURCE_EXHAUSTED|rate limit|quota/i.test(message);
+};
+
+// Retries calls rejected for rate limiting with exponential backoff (2s, 4s, 8s...); other errors pass straight through
+const withRateLimitRetry = async <T,>(call: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await call();
+    } catch (err) {
+      if (!isRateLimitError(err) || attempt >= RATE_LIMIT_RETRIES || signal?.aborted) throw err;
+      const delay = 2000 * 2 ** attempt + Math.random() * 1000;
+      await sleep(delay);
+      signal?.throwIfAborted();
+    }
+  }
+};
+
+const modelServerRequest = (body: unknown, signal?: AbortSignal): RequestInit => ({
+  method: 'POST',
+  headers: {
+    'Content-Type': 'application/json',
+    'X-Client-Id': clientId(),
+    // Labels this browser in the usage report; encoded because header values must be ASCII
+    'X-Client-Name': encodeURIComponent(loadUsageSettings().userName.trim())
+  },
+  body: JSON.stringify(body),
+  signal
+});
+
+// The status rides along on the error so withRateLimitRetry recognizes a 429
+const modelServerError = (status: number, message?: string) =>
+  Object.assign(new Error(message || `The model server returned ${status}.`), { status });
+
+const postToModelServer = async <T,>(endpoint: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+  const response = await fetch(endpoint, modelServerRequest(body, signal));
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw modelServerError(response.status, data?.error);
+  return data as T;
+};
+
+// Reads the server's newline-delimited stream, handing onText everything received so far after each chunk
+const streamFromModelServer = async (
+  endpoint: string,
+  body: unknown,
+  onText: (text: string) => void,
+  signal?: AbortSignal
+): Promise<{ text: string; usage?: CallUsage }> => {
+  const response = await fetch(endpoint, modelServerRequest(body, signal));
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw modelServerError(response.status, data?.error);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  let usage: CallUsage | undefined;
+  for (;;) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines.filter(l => l.trim())) {
+      const message = JSON.parse(line);
+      if (message.error) throw modelServerError(message.status || 502, message.error);
+      if (message.usage) usage = message.usage;
+      if (message.text) {
+        text += message.text;
+        onText(text);
+      }
+    }
+  }
+  return { text, usage };
+};
+
+const fetchUsageReport = async (month: string): Promise<UsageReport> => {
+  const response = await fetch(`/api/usage?month=${encodeURIComponent(month)}`);
+  const data = await response.json().catch(() => null);
+  if (!response.ok) throw new Error(data?.error || `The model server returned ${response.status}.`);
+  return data as UsageReport;
+};
+
+type UsageTracker = (call: CallUsage) => void;
+
+// Reports every call to track, failed ones included; latency is measured here so it covers rate-limit waits
+const trackedCall = async <T extends { usage?: Omit<CallUsage, 'ok' | 'ms'> }>(
+  call: () => Promise<T>,
+  track?: UsageTracker,
+  signal?: AbortSignal
+): Promise<T> => {
+  const started = Date.now();
+  try {
+    const result = await withRateLimitRetry(call, signal);
+    track?.({ model: '', promptTokens: 0, outputTokens: 0, images: 0, cost: null, ...result.usage, ok: true, ms: Date.now() - started });
+    return result;
+  } catch (err) {
+    track?.({ model: '', promptTokens: 0, outputTokens: 0, images: 0, cost: null, ok: false, ms: Date.now() - started });
+    throw err;
+  }
+};
+
+// JSON-mode text generation; the server picks the model
+const generateJson = (parts: Part[], responseSchema: Schema, track?: UsageTracker, signal?: AbortSignal) =>
+  trackedCall(() => postToModelServer<{ text: string; usage?: CallUsage }>('/api/proposal', { parts, responseSchema }, signal), track, signal);
+
+const generateJsonStream = (parts: Part[], responseSchema: Schema, onText: (text: string) => void, track?: UsageTracker, signal?: AbortSignal) =>
+  trackedCall(() => streamFromModelServer('/api/proposal/stream', { parts, responseSchema }, onText, signal), track, signal);
+
+// The sections that have arrived so far, in the shape ProposalDocument renders
+const partialProposal = (value: unknown): ProposalData | null => {
+  if (!value || typeof value !== 'object') return null;
+  const v = value as Record<string, unknown>;
+  const text = (x: unknown) => (typeof x === 'string' ? x : '');
+  const list = (x: unknown) => (Array.isArray(x) ? x.filter((item): item is Record<string, unknown> => !!item && typeof item === 'object') : []);
+  return {
+    summary: text(v.summary),
+    analysis: text(v.analysis),
+    sponsorshipReviews: list(v.sponsorshipReviews).map(r => ({
+      name: text(r.name),
+      amount: typeof r.amount === 'number' ? r.amount : 0,
+      review: text(r.review)
+    })),
+    recommendations: list(v.recommendations).map(r => ({
+      program: text(r.program),
+      tier: text(r.tier) || undefined,
+      reasoning: text(r.reasoning),
+      suggestedInvestment: text(r.suggestedInvestment)
+    }))
+  };
+};
+
+const imageSlotKey = (slot: ImageSlot) => `${slot.kind}:${slot.index}`;
+
+const withSlotImage = (proposal: ProposalData, slot: ImageSlot, imageUrl: string | undefined): ProposalData =>
+  slot.kind === 'recommendation'
+    ? { ...proposal, recommendations: proposal.recommendations.map((r, i) => (i === slot.index ? { ...r, imageUrl } : r)) }
+    : { ...proposal, sponsorshipReviews: proposal.sponsorshipReviews.map((r, i) => (i === slot.index ? { ...r, imageUrl } : r)) };
+
+// Fills in pictures that finished loading without touching anything edited meanwhile; pictures already set are kept
+const withImagesFrom = (target: ProposalData, source: ProposalData): ProposalData => ({
+  ...target,
+  sponsorshipReviews: target.sponsorshipReviews.map((r, i) => (r.imageUrl ? r : { ...r, imageUrl: source.sponsorshipReviews[i]?.imageUrl })),
+  recommendations: target.recommendations.map((r, i) => (r.imageUrl ? r : { ...r, imageUrl: source.recommendations[i]?.imageUrl }))
+});
+
+const MAX_PROPOSAL_ATTEMPTS = 3;
+
+// Asks for a proposal until it validates, sending the previous answer and its problems back each time
+const requestProposal = async (
+  parts: Part[],
+  prompt: string,
+  rules: ProposalRules = { catalog: [] },
+  { track, signal, onPartial }: { track?: UsageTracker; signal?: AbortSignal; onPartial?: (partial: ProposalData) => void } = {}
+): Promise<ProposalData> => {
+  let feedback = '';
+  let issues: string[] = [];
+
+  for (let attempt = 1; attempt <= MAX_PROPOSAL_ATTEMPTS; attempt++) {
+    const contents = [...parts, { text: prompt + feedback }];
+    const response = onPartial
+      ? await generateJsonStream(contents, PROPOSAL_SCHEMA, text => {
+          const partial = partialProposal(parsePartialJson(text));
+          if (partial) onPartial(partial);
+        }, track, signal)
+      : await generateJson(contents, PROPOSAL_SCHEMA, track, signal);
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(response.text || '');
+      const result = validateProposal(parsed, rules);
+      if (result.proposal) return result.proposal;
+      issues = result.issues;
+    } catch {
+      issues = ['The response was not valid JSON.'];
+    }
+
+    feedback = `
+
+        Your previous response was rejected for these problems:
+        ${issues.map(issue => `- ${issue}`).join('\n        ')}
+
+        Previous response:
+        ${(response.text || '').slice(0, 4000)}
+
+        Return the complete, corrected JSON.
+      `;
+  }
+
+  const shown = issues.slice(0, 3).join(' ');
+  const more = issues.length > 3 ? ` (and ${issues.length - 3} more problems)` : '';
+  throw new Error(`Gemini returned an incomplete proposal ${MAX_PROPOSAL_ATTEMPTS} times in a row: ${shown}${more} Try again, or check that the uploaded program PDFs are readable.`);
+};
+
+// The style line and palette come from the organization profile so pictures sit with the brand colors
+// Only the look of the brand reaches the image model
+type ImageStyle = Pick<OrganizationProfile, 'imageStyle' | 'primaryColor' | 'accentColor'>;
+
+const imagePrompt = (subject: string, profile: ImageStyle) => {
+  const style = profile.imageStyle.trim().replace(/\.+$/, '') || DEFAULT_ORGANIZATION_PROFILE.imageStyle;
+  return `A professional, high-end business photograph for a sales proposal representing: ${subject}. ${style}. Where color accents appear, favor ${profile.primaryColor} and ${profile.accentColor}. 16:9 aspect ratio.`;
+};
+
+const generateImage = async (prompt: string, style: ImageStyle, track?: UsageTracker, signal?: AbortSignal): Promise<string> => {
+  const response = await trackedCall(() => postToModelServer<{ dataUrl: string | null; usage?: CallUsage }>('/api/image', {
+    prompt: imagePrompt(prompt, style)
+  }, signal), track, signal);
+  if (!response.dataUrl) throw new Error("The model did not return an image.");
+  return response.dataUrl;
+};
+
+// Runs once per uploaded PDF; the result is reviewed by staff and then used in place of the PDF
+const extractProgramCatalog = async (pdf: ProgramPdf, fiscalYear: number): Promise<CatalogProgram[]> => {
+  const prompt = `
+        You are cataloguing the ${fiscalYear} sponsorship programs described in the attached Events Blueprint PDF.
+
+        List every program or event that can be sponsored. For each one, capture:
+        - "name": the program name exactly as printed
+        - "description": one or two sentences on what the program is
+        - "tiers": every sponsorship level with its "name", "price" as a plain number in dollars (null if not printed) and "benefits" summarized
+        - "attendance": expected or past attendance as printed (empty if not stated)
+        - "audience": who attends
+        - "dates": date or season as printed
+        - "availability": "sold-out" or "limited" only if the PDF says so, "available" if it is offered, otherwise "unknown"
+
+        Do not invent programs, prices or dates that are not in the PDF.
+      `;
+
+  const response = await generateJson([...toPdfParts([pdf]), { text: prompt }], CATALOG_SCHEMA);
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(response.text || '');
+  } catch {
+    throw new Error("The extracted program list was not valid JSON.");
+  }
+  return validateCatalog(parsed).map(program => ({ ...program, id: createId(), sourcePdf: pdf.name }));
+};
+
+// Only added once more than one year is on file; a single year is already covered by the template's spend data
+const historyPrompt = (biz: BusinessSpend) => {
+  const trend = spendTrend(biz);
+  if (!trend) return '';
+  return `
+
+Spend History (oldest first):
+${spendHistoryContext(trend)}
+Ground the summary and analysis in this trajectory: name the growth or decline, the programs they kept, and any that lapsed.`;
+};
+
+const buildProposalPrompt = (biz: BusinessSpend, catalog: CatalogProgram[], template: PromptTemplate, budget?: BudgetPlan, member?: MemberProfile | null) =>
+  renderPromptTemplate(template, biz, catalog)
+  + historyPrompt(biz)
+  + memberPrompt(member)
+  + (budget ? budgetPrompt(budget, template.fiscalYear) : '')
+  + responseFormatSpec(template);
+
+// Text first, then images; onDraft gets the text-only proposal so callers can show and save it before images finish.
+// Once a program catalog exists it replaces the raw PDFs entirely.
+const createProposal = async (
+  biz: BusinessSpend,
+  pdfs: ProgramPdf[],
+  catalog: CatalogProgram[],
+  template: PromptTemplate,
+  budgetRules: BudgetRules,
+  member: MemberProfile | null,
+  style: ImageStyle,
+  hooks: ProposalHooks = {}
+): Promise<ProposalData> => {
+  const { signal } = hooks;
+  // The proposal carries its own running total of what it cost
+  let usage: GenerationUsage | undefined;
+  const track = (call: CallUsage) => {
+    usage = addUsage(usage, call);
+    hooks.onUsage?.(call);
+  };
+  const budget = budgetRules.enabled ? computeBudget(biz, budgetRules) : undefined;
+  const programs = budget ? affordableCatalog(catalog, budget) : catalog;
+  if (catalog.length && !programs.length) {
+    throw new Error(`No catalog program has a tier within the ${formatInvestment(budget!.target)} budget for ${biz.businessName}.`);
+  }
+  const parts = catalog.length ? [] : toPdfParts(pdfs);
+  const draft = await requestProposal(
+    parts,
+    buildProposalPrompt(biz, programs, template, budget, member),
+    { catalog: programs, template, budget },
+    { track, signal, onPartial: hooks.onPartial && (partial => hooks.onPartial?.({ ...partial, fiscalYear: template.fiscalYear })) }
+  );
+  const result = { ...draft, budget, usage, fiscalYear: template.fiscalYear };
+  hooks.onDraft?.(result);
+
+  // Every image starts at once and is reported as soon as it lands; a failed image leaves its box empty instead of failing the proposal
+  const library = await loadMediaItems().catch(() => [] as MediaItem[]);
+  const fill = (slot: ImageSlot, name: string, prompt: string) =>
+    libraryImage(library, name, prompt, style, hooks.onImageSaved, track, signal).then(
+      url => {
+        hooks.onImage?.(slot, { url });
+        return url as string | undefined;
+      },
+      err => {
+        if (!signal?.aborted) hooks.onImage?.(slot, { error: err.message });
+        return undefined;
+      }
+    );
+  const [recImages, reviewImages] = await Promise.all([
+    Promise.all(result.recommendations.map((r, index) => fill({ kind: 'recommendation', index }, r.program, r.imagePrompt || ''))),
+    Promise.all(result.sponsorshipReviews.map((s, index) => fill({ kind: 'review', index }, s.name, s.imagePrompt || '')))
+  ]);
+  signal?.throwIfAborted();
+
+  return {
+    ...result,
+    usage,
+    recommendations: result.recommendations.map((r, i) => ({ ...r, imageUrl: recImages[i] })),
+    sponsorshipReviews: result.sponsorshipReviews.map((s, i) => ({ ...s, imageUrl: reviewImages[i] }))
+  };
+};
+
+// --- Storage ---
+// Workspace persistence lives in IndexedDB: the directory and PDFs as single values, proposals as one record per generation
+const DB_NAME = 'proposal-architect';
+const DB_VERSION = 2;
+const WORKSPACE_STORE = 'workspace';
+const PROPOSALS_STORE = 'proposals';
+const MEDIA_STORE = 'media';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(WORKSPACE_STORE)) {
+          db.createObjectStore(WORKSPACE_STORE);
+        }
+        if (!db.objectStoreNames.contains(PROPOSALS_STORE)) {
+          const proposals = db.createObjectStore(PROPOSALS_STORE, { keyPath: 'id' });
+          proposals.createIndex('businessName', 'businessName');
+        }
+        if (!db.objectStoreNames.contains(MEDIA_STORE)) {
+          db.createObjectStore(MEDIA_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+  return dbPromise;
+};
+
+// Runs a single request in its own transaction and resolves once the transaction commits
+const withStore = async <T,>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = run(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const loadWorkspaceValue = <T,>(key: string) =>
+  withStore<T | undefined>(WORKSPACE_STORE, 'readonly', store => store.get(key));
+
+const saveWorkspaceValue = (key: string, value: unknown) =>
+  withStore(WORKSPACE_STORE, 'readwrite', store => store.put(value, key));
+
+const loadStoredProposals = () =>
+  withStore<StoredProposal[]>(PROPOSALS_STORE, 'readonly', store => store.getAll());
+
+const saveStoredProposal = (entry: StoredProposal) =>
+  withStore(PROPOSALS_STORE, 'readwrite', store => store.put(entry));
+
+const loadMediaItems = () =>
+  withStore<MediaItem[]>(MEDIA_STORE, 'readonly', store => store.getAll());
+
+const saveMediaItem = (item: MediaItem) =>
+  withStore(MEDIA_STORE, 'readwrite', store => store.put(item));
+
+const deleteMediaItem = (id: string) =>
+  withStore(MEDIA_STORE, 'readwrite', store => store.delete(id));
+
+// The media library is deliberately left alone: it is meant to outlive any one directory
+const clearWorkspaceDb = async () => {
+  await withStore(WORKSPACE_STORE, 'readwrite', store => store.clear());
+  await withStore(PROPOSALS_STORE, 'readwrite', store => store.clear());
+};
+
+const createId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Oldest first, so a version's position is its number
+const versionsFor = (entries: StoredProposal[], businessName: string) =>
+  entries
+    .filter(e => e.businessName === businessName)
+    .sort((a, b) => a.createdAt - b.createdAt);
+
+const latestProposalFor = (entries: StoredProposal[], businessName: string) =>
+  versionsFor(entries, businessName).pop() || null;
+
+const displayedProposal = (entry: StoredProposal) => entry.edited || entry.proposal;
+
+// --- Media library ---
+// Words that say nothing about what a photo shows; years are dropped too so last year's photo fits this year's event
+const MEDIA_STOPWORDS = new Set(['the', 'and', 'for', 'with', 'from', 'our', 'your', 'sponsor', 'sponsorship', 'title', 'presenting', 'program', 'series', 'annual', 'event', 'image', 'photo', 'photograph', 'description']);
+
+const mediaTokens = (text: string) =>
+  text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(word => word.length > 2 && !/^\d+$/.test(word) && !MEDIA_STOPWORDS.has(word));
+
+// Tags from the program or product name, so a later box for the same program finds this image
+const mediaTagsFor = (name: string) => Array.from(new Set(mediaTokens(name)));
+
+// The program name has to match; the image prompt only breaks ties. Name words count for more the fewer images use them,
+// so a word most of the library shares ("meeting") can't carry a match. A name of two or more words needs two of them to hit,
+// and a one-word name only reuses images tagged with that word alone.
+const findLibraryImage = (library: MediaItem[], name: string, prompt = '') => {
+  const nameTokens = Array.from(new Set(mediaTokens(name)));
+  if (!nameTokens.length) return null;
+  const promptTokens = Array.from(new Set(mediaTokens(prompt)));
+  const itemWords = library.map(item => new Set([...item.tags.flatMap(mediaTokens), ...mediaTokens(item.description)]));
+  const weight = new Map(nameTokens.map(t => [t, Math.log(1 + library.length / Math.max(1, itemWords.filter(words => words.has(t)).length))]));
+  const totalWeight = nameTokens.reduce((sum, t) => sum + weight.get(t)!, 0);
+  let best: MediaItem | null = null;
+  let bestScore = 0;
+  for (let i = 0; i < library.length; i++) {
+    const item = library[i];
+    const words = itemWords[i];
+    const hits = nameTokens.filter(t => words.has(t));
+    if (hits.length < Math.min(2, nameTokens.length)) continue;
+    if (nameTokens.length === 1) {
+      const tags = item.tags.flatMap(mediaTokens);
+      if (!tags.length || tags.some(t => t !== nameTokens[0])) continue;
+    }
+    const coverage = hits.reduce((sum, t) => sum + weight.get(t)!, 0) / totalWeight;
+    if (coverage < 0.6) continue;
+    const score = coverage * 10 + promptTokens.filter(t => words.has(t)).length;
+    if (score > bestScore) {
+      best = item;
+      bestScore = score;
+    }
+  }
+  return best;
+};
+
+// Library browser search: anything matching a word of the query, best matches first, newest first within a tie
+const searchMedia = (library: MediaItem[], query: string) => {
+  const tokens = mediaTokens(query);
+  const sorted = [...library].sort((a, b) => b.createdAt - a.createdAt);
+  if (!tokens.length) return sorted;
+  return sorted
+    .map(item => {
+      const text = `${item.tags.join(' ')} ${item.description}`.toLowerCase();
+      return { item, hits: tokens.filter(t => text.includes(t)).length };
+    })
+    .filter(result => result.hits > 0)
+    .sort((a, b) => b.hits - a.hits)
+    .map(result => result.item);
+};
+
+// Library first, Gemini only on a miss; a freshly generated image is saved back for next time
+const libraryImage = async (
+  library: MediaItem[],
+  name: string,
+  prompt: string,
+  style: ImageStyle,
+  onSaved?: (item: MediaItem) => void,
+  track?: UsageTracker,
+  signal?: AbortSignal
+): Promise<string> => {
+  const match = findLibraryImage(library, name, prompt);
+  if (match) return match.dataUrl;
+  const dataUrl = await generateImage(prompt || name, style, track, signal);
+  const item: MediaItem = { id: createId(), dataUrl, description: prompt || name, tags: mediaTagsFor(name), source: 'generated', createdAt: Date.now() };
+  try {
+    await saveMediaItem(item);
+    onSaved?.(item);
+  } catch (e) {
+    console.error("Failed to save image to the library:", e);
+  }
+  return dataUrl;
+};
+
+// --- Export ---
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const slugify = (value: string) =>
+  value.toLowerCase().normalize('NFKD').replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'business';
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(blob);
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = error => reject(error);
+  });
+};
+
+// Exported files must open offline, so remote images are inlined; if a host refuses, the link is kept as-is
+const embedImage = async (url?: string): Promise<string | undefined> => {
+  if (!url || url.startsWith('data:')) return url;
+  try {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`HTTP ${response.status}`);
+    return await blobToDataUrl(await response.blob());
+  } catch (e) {
+    console.warn("Could not embed image, keeping remote URL:", url, e);
+    return url;
+  }
+};
+
+const embedProposalImages = async (proposal: ProposalData): Promise<ProposalData> => ({
+  ...proposal,
+  sponsorshipReviews: await Promise.all(proposal.sponsorshipReviews.map(async r => ({ ...r, imageUrl: await embedImage(r.imageUrl) }))),
+  recommendations: await Promise.all(proposal.recommendations.map(async r => ({ ...r, imageUrl: await embedImage(r.imageUrl) })))
+});
+
+const EXPORT_STYLES = `
+  * { box-sizing: border-box; }
+  body { font-family: var(--brand-body-font); color: #1e293b; margin: 0; background: #f8fafc; }
+  .page { max-width: 8.5in; margin: 0 auto; background: #fff; padding: 0.75in; }
+  .eyebrow { color: var(--brand-primary); font-weight: 700; letter-spacing: -0.03em; font-size: 18px; margin-bottom: 12px; text-transform: uppercase; }
+  h1, h2, h3 { font-family: var(--brand-heading-font); }
+  h1 { font-size: 40px; font-weight: 900; margin: 0 0 6px; color: #0f172a; line-height: 1.1; }
+  .muted { color: #94a3b8; font-weight: 500; }
+  header.top { display: flex; justify-content: space-between; align-items: flex-start; gap: 24px; border-bottom: 1px solid #f1f5f9; padding-bottom: 32px; margin-bottom: 32px; }
+  .total { background: #f8fafc; border: 1px solid #f1f5f9; border-radius: 16px; padding: 20px; min-width: 190px; }
+  .label { font-size: 10px; font-weight: 800; color: #94a3b8; text-transform: uppercase; letter-spacing: 0.2em; }
+  .total .value { font-size: 28px; font-weight: 900; color: var(--brand-primary); }
+  .totals { display: flex; gap: 12px; }
+  .total.proposed { background: var(--brand-tint); border-color: var(--brand-soft); }
+  .total.proposed .value { color: #0f172a; }
+  .delta { font-size: 11px; color: #64748b; margin-top: 4px; }
+  h2 { font-size: 13px; font-weight: 900; color: var(--brand-accent); text-transform: uppercase; letter-spacing: 0.2em; margin: 32px 0 14px; }
+  .summary { font-size: 17px; font-weight: 300; color: #475569; line-height: 1.65; }
+  p { color: #475569; line-height: 1.65; }
+  table.allocation { width: 100%; border-collapse: collapse; font-size: 12px; }
+  table.allocation td { padding: 6px 0; border-bottom: 1px solid var(--brand-tint); color: #64748b; }
+  table.allocation td.amount { text-align: right; font-weight: 700; color: #334155; }
+  .grid { display: grid; grid-template-columns: repeat(3, 1fr); gap: 18px; }
+  .card { border: 1px solid #f1f5f9; border-radius: 16px; overflow: hidden; break-inside: avoid; page-break-inside: avoid; }
+  .card img { width: 100%; height: 120px; object-fit: cover; display: block; background: #f1f5f9; }
+  .card.rec img { height: 150px; }
+  .card .body { padding: 16px; }
+  .card h3 { font-size: 12px; font-weight: 700; text-transform: uppercase; letter-spacing: 0.1em; margin: 0 0 6px; color: #1e293b; }
+  .card.rec h3 { font-size: 17px; text-transform: none; letter-spacing: 0; }
+  .card p { font-size: 12px; margin: 0; }
+  .card.rec p { font-style: italic; font-weight: 300; }
+  .tier { font-size: 10px; font-weight: 800; color: var(--brand-accent); text-transform: uppercase; letter-spacing: 0.15em; margin-bottom: 8px; }
+  .badge { display: inline-block; background: var(--brand-primary); color: #fff; font-size: 9px; font-weight: 900; text-transform: uppercase; letter-spacing: 0.1em; padding: 3px 10px; border-radius: 999px; margin-bottom: 8px; }
+  .amount-tag { font-size: 11px; font-weight: 800; color: #334155; margin-bottom: 6px; }
+  .allocation-row { display: flex; justify-content: space-between; border-top: 1px solid #e2e8f0; margin-top: 14px; padding-top: 12px; }
+  .allocation-row strong { font-size: 16px; font-weight: 900; color: #0f172a; }
+  footer { display: flex; justify-content: space-between; gap: 40px; border-top: 1px solid #f1f5f9; margin-top: 48px; padding-top: 28px; }
+  .notes { flex: 1; white-space: pre-wrap; font-size: 13px; color: #475569; }
+  .signature { width: 240px; }
+  .signature .line { border-bottom: 1px solid #0f172a; height: 40px; margin-bottom: 12px; }
+  .sender { width: 200px; font-size: 13px; color: #64748b; }
+  .sender strong { display: block; color: #0f172a; margin-top: 6px; }
+  .legal { font-size: 10px; color: #94a3b8; line-height: 1.6; white-space: pre-wrap; border-top: 1px solid #f1f5f9; margin-top: 40px; padding-top: 16px; }
+  .logo { max-height: 48px; max-width: 200px; display: block; margin-bottom: 20px; }
+  .on-band .logo, .cover .logo { background: #fff; padding: 10px; border-radius: 10px; }
+  .member-logo { max-height: 56px; max-width: 180px; display: block; background: #fff; padding: 8px; border: 1px solid #f1f5f9; border-radius: 12px; margin-bottom: 12px; }
+  .cover .member-logo { max-height: 80px; max-width: 260px; padding: 14px; border: 0; margin-bottom: 20px; }
+  .cover { background: var(--brand-primary); color: #fff; margin: -0.75in -0.75in 0.75in; padding: 0.75in; min-height: 10in; display: flex; flex-direction: column; justify-content: space-between; break-after: page; }
+  .cover .eyebrow { color: inherit; opacity: 0.8; font-size: 13px; letter-spacing: 0.2em; font-weight: 900; }
+  .cover h1 { color: inherit; font-size: 54px; }
+  .cover .meta { display: flex; justify-content: space-between; align-items: flex-end; font-size: 13px; opacity: 0.85; }
+  .cover .label { color: inherit; opacity: 0.7; }
+  .layout-bold header.top { background: var(--brand-primary); margin: -0.75in -0.75in 32px; padding: 0.75in 0.75in 32px; border: 0; }
+  .layout-bold .cover + header.top { margin-top: 0; }
+  .layout-bold header.top h1 { color: #fff; }
+  .layout-bold header.top .eyebrow, .layout-bold header.top > div > .muted { color: rgba(255, 255, 255, 0.75); }
+  .layout-bold h2 { color: var(--brand-primary); font-size: 15px; letter-spacing: 0.15em; border-left: 4px solid var(--brand-primary); padding-left: 10px; }
+  .layout-bold .card { border: 2px solid var(--brand-soft); }
+  .layout-minimal header.top { border-bottom: 2px solid #0f172a; }
+  .layout-minimal .eyebrow { color: #64748b; font-size: 13px; font-weight: 500; letter-spacing: 0.15em; }
+  .layout-minimal h2 { color: #0f172a; font-size: 18px; font-weight: 600; text-transform: none; letter-spacing: 0; border-bottom: 1px solid #e2e8f0; padding-bottom: 8px; }
+  .layout-minimal .card, .layout-minimal .total { border-radius: 0; border-color: #e2e8f0; }
+  .layout-minimal .cover { background: #fff; color: #0f172a; border-bottom: 2px solid #0f172a; }
+  .layout-minimal .cover .logo { padding: 0; }
+  @page { size: letter; margin: 0.5in; }
+  @media print {
+    body { background: #fff; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    .page { padding: 0; max-width: none; }
+    section { break-inside: avoid-page; }
+    section.recommendations { break-before: page; break-inside: auto; }
+    .cover, .layout-bold header.top { margin: 0 0 32px; }
+    .cover { min-height: 10in; margin: 0; }
+  }
+`;
+
+// Standalone, print-ready HTML mirroring the on-screen proposal layout
+const renderProposalHtml = (business: BusinessSpend, proposal: ProposalData, profile: OrganizationProfile, member?: MemberProfile | null) => {
+  const proposed = proposedTotal(proposal.recommendations);
+  const variables = Object.entries(brandVariables(profile)).map(([name, value]) => `${name}: ${value};`).join(' ');
+  const logo = profile.logoDataUrl ? `<img class="logo" src="${escapeHtml(profile.logoDataUrl)}" alt="${escapeHtml(profile.name || 'Logo')}" />` : '';
+  const contact = senderContact(profile).map(line => `<div>${escapeHtml(line)}</div>`).join('');
+  const memberLogo = member?.logoDataUrl ? `<img class="member-logo" src="${escapeHtml(member.logoDataUrl)}" alt="${escapeHtml(business.businessName)}" />` : '';
+  const attention = member ? memberContactLine(member) : '';
+  const subtitle = (profile.fiscalYearLabel ? `<div class="muted">Prepared for ${escapeHtml(profile.fiscalYearLabel)}</div>` : '')
+    + (attention ? `<div class="muted">Attention: ${escapeHtml(attention)}</div>` : '');
+  const cover = profile.coverPage ? `
+    <div class="cover">
+      <div>${logo}${profile.name ? `<strong>${escapeHtml(profile.name)}</strong>` : ''}</div>
+      <div>
+        <div class="eyebrow">${escapeHtml(profile.proposalTitle)}</div>
+        ${memberLogo}
+        <h1>${escapeHtml(business.businessName)}</h1>
+        ${subtitle}
+      </div>
+      <div class="meta">
+        <div>${hasSender(profile) ? `<div class="label">Prepared by</div>${profile.senderName ? `<strong>${escapeHtml(profile.senderName)}</strong>` : ''}${profile.senderTitle ? `<div>${escapeHtml(profile.senderTitle)}</div>` : ''}${contact}` : ''}</div>
+        <div>${new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}</div>
+      </div>
+    </div>` : '';
+  const year = spendYear(business);
+  const trend = spendTrend(business);
+  const image = (url: string | undefined, alt: string) => (url ? `<img src="${escapeHtml(url)}" alt="${escapeHtml(alt)}" />` : '');
+  const allocation = Object.entries(business.products)
+    .map(([name, amount]) => `<tr><td>${escapeHtml(name)}</td><td class="amount">${formatCurrency(amount)}</td></tr>`)
+    .join('');
+  const history = trend ? `
+    <section>
+      <h2>Spend History · ${escapeHtml(trendLabel(trend).text)}</h2>
+      <table class="allocation">${trend.years.map(y => `<tr><td>${y.year}</td><td class="amount">${formatCurrency(y.totalSpend)}</td></tr>`).join('')}</table>
+      ${trend.lapsed.length ? `<p class="delta">Lapsed: ${escapeHtml(trend.lapsed.join(', '))}</p>` : ''}
+      ${trend.added.length ? `<p class="delta">New: ${escapeHtml(trend.added.join(', '))}</p>` : ''}
+    </section>` : '';
+  const reviews = proposal.sponsorshipReviews.map(item => `
+        <div class="card">
+          ${image(item.imageUrl, item.name)}
+          <div class="body">
+            <div class="amount-tag">${formatCurrency(item.amount)}</div>
+            <h3>${escapeHtml(item.name)}</h3>
+            <p>${escapeHtml(item.review)}</p>
+          </div>
+        </div>`).join('');
+  const recommendations = proposal.recommendations.map((rec, idx) => `
+        <div class="card rec">
+          ${image(rec.imageUrl, rec.program)}
+          <div class="body">
+            <span class="badge">Priority ${idx + 1}</span>
+            <h3>${escapeHtml(rec.program)}</h3>
+            ${rec.tier ? `<div class="tier">${escapeHtml(rec.tier)}</div>` : ''}
+            <p>${escapeHtml(rec.reasoning)}</p>
+            <div class="allocation-row"><span class="label">Target Allocation</span><strong>${escapeHtml(rec.suggestedInvestment)}</strong></div>
+          </div>
+        </div>`).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(business.businessName)} · ${escapeHtml(profile.proposalTitle)}</title>
+  <link href="${brandFontsHref(profile)}" rel="stylesheet" />
+  <style>:root { ${variables} }${EXPORT_STYLES}</style>
+</head>
+<body class="layout-${profile.layout}">
+  <div class="page">${cover}
+    <header class="top${profile.layout === 'bold' ? ' on-band' : ''}">
+      <div>
+        ${profile.coverPage ? '' : logo}
+        <div class="eyebrow">${escapeHtml(profile.proposalTitle)}</div>
+        ${profile.coverPage ? '' : memberLogo}
+        <h1>${escapeHtml(business.businessName)}</h1>
+        ${subtitle}
+      </div>
+      <div class="totals">
+        <div class="total">
+          <div class="label">${year} Total Value</div>
+          <div class="value">${formatCurrency(business.totalSpend)}</div>
+        </div>
+        ${proposed !== null ? `<div class="total proposed">
+          <div class="label">${proposalYear(proposal)} Proposed Total</div>
+          <div class="value">${formatCurrency(proposed)}</div>
+          ${business.totalSpend > 0 ? `<div class="delta">${proposed >= business.totalSpend ? '+' : ''}${Math.round(((proposed - business.totalSpend) / business.totalSpend) * 100)}% vs ${year}</div>` : ''}
+        </div>` : ''}
+      </div>
+    </header>
+
+    <section>
+      <h2>Executive Summary</h2>
+      <div class="summary">${escapeHtml(proposal.summary)}</div>
+    </section>
+    <section>
+      <h2>Strategic Relationship Analysis</h2>
+      <p>${escapeHtml(proposal.analysis)}</p>
+    </section>
+    <section>
+      <h2>${year} Spend Allocation</h2>
+      <table class="allocation">${allocation}</table>
+    </section>${history}
+    <section>
+      <h2>${year} Portfolio Retrospective</h2>
+      <div class="grid">${reviews}</div>
+    </section>
+    <section class="recommendations">
+      <h2>${proposalYear(proposal)} Strategic Recommendations</h2>
+      <div class="grid">${recommendations}</div>
+    </section>
+
+    <footer>
+      <div class="notes">
+        <h3>Notes &amp; Next Steps</h3>
+        ${escapeHtml(proposal.notes || '')}
+      </div>
+      ${hasSender(profile) ? `<div class="sender">
+        <div class="label">Prepared by</div>
+        ${profile.senderName ? `<strong>${escapeHtml(profile.senderName)}</strong>` : ''}
+        ${profile.senderTitle ? `<div>${escapeHtml(profile.senderTitle)}</div>` : ''}
+        ${profile.name ? `<div>${escapeHtml(profile.name)}</div>` : ''}
+        ${contact}
+      </div>` : ''}
+      <div class="signature">
+        <div class="line"></div>
+        <div class="label">Authorized Approver</div>
+      </div>
+    </footer>
+    ${profile.legalFooter.trim() ? `<div class="legal">${escapeHtml(profile.legalFooter.trim())}</div>` : ''}
+  </div>
+</body>
+</html>
+`;
+};
+
+const renderExportIndex = (rows: { business: BusinessSpend; entry: StoredProposal; fileBase: string }[]) => {
+  const total = rows.reduce((sum, r) => sum + r.business.totalSpend, 0);
+  const year = rows.length ? spendYear(rows[0].business) : DEFAULT_SPEND_YEAR;
+  const fiscalYear = rows.length ? proposalYear(displayedProposal(rows[0].entry)) : DEFAULT_TEMPLATE.fiscalYear;
+  const body = rows.map(({ business, entry, fileBase }) => {
+    const proposal = displayedProposal(entry);
+    return `
+      <tr>
+        <td>${escapeHtml(business.businessName)}</td>
+        <td class="num">${formatCurrency(business.totalSpend)}</td>
+        <td>${escapeHtml(proposal.recommendations.map(r => r.program).join('; '))}</td>
+        <td>${formatTimestamp(entry.createdAt)}${entry.edited ? ' (edited)' : ''}</td>
+        <td><a href="${fileBase}.html">HTML</a> · <a href="${fileBase}.json">JSON</a></td>
+      </tr>`;
+  }).join('');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8" />
+  <title>${fiscalYear} Proposal Export</title>
+  <style>
+    body { font-family: 'Inter', -apple-system, 'Segoe UI', Helvetica, Arial, sans-serif; color: #1e293b; margin: 40px; }
+    h1 { font-size: 24px; margin-bottom: 4px; }
+    .muted { color: #64748b; margin-bottom: 24px; }
+    table { border-collapse: collapse; width: 100%; font-size: 13px; }
+    th { text-align: left; font-size: 10px; text-transform: uppercase; letter-spacing: 0.15em; color: #94a3b8; padding: 8px; border-bottom: 2px solid #e2e8f0; }
+    td { padding: 8px; border-bottom: 1px solid #f1f5f9; vertical-align: top; }
+    td.num { text-align: right; font-weight: 700; white-space: nowrap; }
+    a { color: #4f46e5; }
+  </style>
+</head>
+<body>
+  <h1>${fiscalYear} Proposal Export</h1>
+  <div class="muted">${rows.length} proposals · ${formatCurrency(total)} combined ${year} spend · exported ${formatTimestamp(Date.now())}</div>
+  <table>
+    <thead><tr><th>Business</th><th>${year} Total</th><th>Recommendations</th><th>Version</th><th>Files</th></tr></thead>
+    <tbody>${body}</tbody>
+  </table>
+</body>
+</html>
+`;
+};
+
+// One HTML + JSON pair per business, named after the business, plus an index.html linking them all
+const buildProposalZip = async (items: { business: BusinessSpend; entry: StoredProposal }[], profile: OrganizationProfile, members: MemberProfiles): Promise<Blob> => {
+  const zip = new JSZip();
+  const usedNames = new Set<string>();
+  const rows: { business: BusinessSpend; entry: StoredProposal; fileBase: string }[] = [];
+
+  for (const { business, entry } of items) {
+    const fiscalYear = proposalYear(displayedProposal(entry));
+    let fileBase = `${slugify(business.businessName)}-${fiscalYear}-proposal`;
+    for (let n = 2; usedNames.has(fileBase); n++) fileBase = `${slugify(business.businessName)}-${fiscalYear}-proposal-${n}`;
+    usedNames.add(fileBase);
+
+    const proposal = await embedProposalImages(displayedProposal(entry));
+    zip.file(`${fileBase}.html`, renderProposalHtml(business, proposal, profileForProposal(profile, proposal), members[business.businessName]));
+    // Generation cost and the internal spend target stay out of files that may be handed to the member
+    const { usage, budget, ...shared } = proposal;
+    zip.file(`${fileBase}.json`, JSON.stringify({ businessName: business.businessName, year: spendYear(business), totalSpend: business.totalSpend, products: business.products, history: spendHistory(business), generatedAt: new Date(entry.createdAt).toISOString(), proposal: shared }, null, 2));
+    rows.push({ business, entry, fileBase });
+  }
+
+  zip.file('index.html', renderExportIndex(rows));
+  return zip.generateAsync({ type: 'blob' });
+};
+
+// --- DOCX ---
+const DOCX_SLATE = '475569';
+const DOCX_MUTED = '94A3B8';
+const DOCX_CONTENT_WIDTH = 10080; // 7in of letter width, in twips
+const DOCX_NO_BORDER = { style: BorderStyle.NONE, size: 0, color: 'FFFFFF' };
+const DOCX_NO_BORDERS = { top: DOCX_NO_BORDER, bottom: DOCX_NO_BORDER, left: DOCX_NO_BORDER, right: DOCX_NO_BORDER, insideHorizontal: DOCX_NO_BORDER, insideVertical: DOCX_NO_BORDER };
+const DOCX_CARD_BORDER = { style: BorderStyle.SINGLE, size: 4, color: 'E2E8F0' };
+const DOCX_CARD_BORDERS = { top: DOCX_CARD_BORDER, bottom: DOCX_CARD_BORDER, left: DOCX_CARD_BORDER, right: DOCX_CARD_BORDER };
+
+// Word only accepts png/jpg/gif/bmp, so every image is redrawn to a PNG cropped like the on-screen cards
+const loadImageAsPng = (url: string, width: number, height: number): Promise<ArrayBuffer | null> => {
+  return new Promise(resolve => {
+    const img = new Image();
+    img.crossOrigin = 'anonymous';
+    img.onload = () => {
+      try {
+        const canvas = document.createElement('canvas');
+        canvas.width = width * 2;
+        canvas.height = height * 2;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return resolve(null);
+        const scale = Math.max(canvas.width / img.naturalWidth, canvas.height / img.naturalHeight);
+        const w = img.naturalWidth * scale;
+        const h = img.naturalHeight * scale;
+        ctx.drawImage(img, (canvas.width - w) / 2, (canvas.height - h) / 2, w, h);
+        canvas.toBlob(blob => (blob ? blob.arrayBuffer().then(resolve, () => resolve(null)) : resolve(null)), 'image/png');
+      } catch (e) {
+        // Hosts without CORS headers taint the canvas; the card is exported without its image
+        console.warn("Could not convert image for DOCX:", url, e);
+        resolve(null);
+      }
+    };
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+};
+
+// Word colors are bare hex without the leading #
+const docxColor = (hex: string) => hex.slice(1).toUpperCase();
+
+// Logos keep their own proportions, fitted inside a box instead of cropped like the card images
+const docxLogo = async (url: string, maxWidth: number, maxHeight: number) => {
+  if (!url) return null;
+  const size = await new Promise<{ width: number; height: number } | null>(resolve => {
+    const img = new Image();
+    img.onload = () => resolve({ width: img.naturalWidth, height: img.naturalHeight });
+    img.onerror = () => resolve(null);
+    img.src = url;
+  });
+  if (!size || !size.width || !size.height) return null;
+  const scale = Math.min(maxWidth / size.width, maxHeight / size.height);
+  return docxImage(url, Math.round(size.width * scale), Math.round(size.height * scale));
+};
+
+const docxImage = async (url: string | undefined, width: number, height: number) => {
+  if (!url) return null;
+  const data = await loadImageAsPng(url, width, height);
+  if (!data) return null;
+  return new Paragraph({
+    spacing: { after: 120 },
+    children: [new ImageRun({ type: 'png', data, transformation: { width, height } })]
+  });
+};
+
+const docxLabel = (text: string, options: { before?: number; after?: number } = {}) =>
+  new Paragraph({
+    spacing: { before: options.before ?? 0, after: options.after ?? 60 },
+    children: [new TextRun({ text, bold: true, allCaps: true, size: 16, color: DOCX_MUTED, characterSpacing: 30 })]
+  });
+
+// Mirrors the layout's section titles: accent caps (classic), ruled primary caps (bold) or plain underlined (minimal)
+const docxSectionHeading = (text: string, profile: OrganizationProfile) => {
+  if (profile.layout === 'minimal') {
+    return new Paragraph({
+      heading: HeadingLevel.HEADING_2,
+      spacing: { before: 480, after: 200 },
+      border: { bottom: { style: BorderStyle.SINGLE, size: 4, color: 'E2E8F0', space: 4 } },
+      children: [new TextRun({ text, bold: true, size: 28, color: '0F172A', font: profile.headingFont })]
+    });
+  }
+  const bold = profile.layout === 'bold';
+  return new Paragraph({
+    heading: HeadingLevel.HEADING_2,
+    spacing: { before: 480, after: 200 },
+    border: bold ? { left: { style: BorderStyle.SINGLE, size: 24, color: docxColor(profile.primaryColor), space: 8 } } : undefined,
+    children: [new TextRun({ text, bold: true, allCaps: true, size: bold ? 22 : 20, color: docxColor(bold ? profile.primaryColor : profile.accentColor), characterSpacing: 40, font: profile.headingFont })]
+  });
+};
+
+const docxBody = (text: string, options: { size?: number; italics?: boolean } = {}) =>
+  text.split('\n').map(line =>
+    new Paragraph({
+      spacing: { after: 120, line: 300 },
+      children: [new TextRun({ text: line, size: options.size ?? 21, color: DOCX_SLATE, italics: options.italics })]
+    })
+  );
+
+// Lays cards out three per row like the on-screen grid, padding the last row with empty cells
+const docxCardGrid = (cards: Paragraph[][]) => {
+  const columnWidth = Math.floor(DOCX_CONTENT_WIDTH / 3);
+  const rows: TableRow[] = [];
+  for (let i = 0; i < cards.length; i += 3) {
+    const chunk = cards.slice(i, i + 3);
+    while (chunk.length < 3) chunk.push([]);
+    rows.push(new TableRow({
+      cantSplit: true,
+      children: chunk.map(children => new TableCell({
+        width: { size: columnWidth, type: WidthType.DXA },
+        borders: children.length ? DOCX_CARD_BORDERS : undefined,
+        margins: { top: 120, bottom: 160, left: 140, right: 140 },
+        children: children.length ? children : [new Paragraph('')]
+      }))
+    }));
+  }
+  return new Table({
+    width: { size: DOCX_CONTENT_WIDTH, type: WidthType.DXA },
+    columnWidths: [columnWidth, columnWidth, columnWidth],
+    borders: { ...DOCX_NO_BORDERS, insideVertical: { style: BorderStyle.SINGLE, size: 24, color: 'FFFFFF' } },
+    rows
+  });
+};
+
+// Label / amount rows with hairline dividers, as in the spend allocation
+const docxAmountTable = (rows: [string, number][]) =>
+  new Table({
+    width: { size: DOCX_CONTENT_WIDTH, type: WidthType.DXA },
+    columnWidths: [7080, 3000],
+    borders: { ...DOCX_NO_BORDERS, insideHorizontal: { style: BorderStyle.SINGLE, size: 4, color: 'EEF2FF' }, bottom: { style: BorderStyle.SINGLE, size: 4, color: 'EEF2FF' } },
+    rows: rows.map(([name, amount]) => new TableRow({
+      children: [
+        new TableCell({ width: { size: 7080, type: WidthType.DXA }, margins: { top: 60, bottom: 60 }, children: [new Paragraph({ children: [new TextRun({ text: name, size: 19, color: '64748B' })] })] }),
+        new TableCell({ width: { size: 3000, type: WidthType.DXA }, margins: { top: 60, bottom: 60 }, children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: [new TextRun({ text: formatCurrency(amount), bold: true, size: 19, color: '334155' })] })] })
+      ]
+    }))
+  });
+
+const buildProposalDocx = async (business: BusinessSpend, proposal: ProposalData, profile: OrganizationProfile, member?: MemberProfile | null): Promise<Blob> => {
+  const proposed = proposedTotal(proposal.recommendations);
+  const year = spendYear(business);
+  const trend = spendTrend(business);
+  const primary = docxColor(profile.primaryColor);
+  const accent = docxColor(profile.accentColor);
+  const band = profile.layout === 'bold';
+  const heading = (text: string) => docxSectionHeading(text, profile);
+  const logo = await docxLogo(profile.logoDataUrl, 180, 48);
+  const memberLogo = await docxLogo(member?.logoDataUrl || '', profile.coverPage ? 240 : 140, profile.coverPage ? 80 : 48);
+  const attention = member ? memberContactLine(member) : '';
+  const contact = senderContact(profile);
+  const senderLines = (color: string) => [
+    ...(profile.senderName ? [new Paragraph({ children: [new TextRun({ text: profile.senderName, bold: true, size: 20, color: '0F172A' })] })] : []),
+    ...[profile.senderTitle, profile.name, ...contact].filter(Boolean).map(line => new Paragraph({ children: [new TextRun({ text: line, size: 19, color })] }))
+  ];
+
+  // Word can't paint a full-bleed band on the cover, so it is typeset on white in the brand color
+  const cover = profile.coverPage ? [
+    ...(logo ? [logo] : []),
+    new Paragraph({ spacing: { before: 3600, after: 240 }, children: [new TextRun({ text: profile.proposalTitle, bold: true, allCaps: true, size: 24, color: primary, characterSpacing: 40, font: profile.headingFont })] }),
+    ...(memberLogo ? [memberLogo] : []),
+    new Paragraph({ heading: HeadingLevel.TITLE, spacing: { after: 200 }, children: [new TextRun({ text: business.businessName, bold: true, size: 80, color: '0F172A', font: profile.headingFont })] }),
+    ...(profile.fiscalYearLabel ? [new Paragraph({ children: [new TextRun({ text: `Prepared for ${profile.fiscalYearLabel}`, size: 28, color: DOCX_MUTED })] })] : []),
+    ...(attention ? [new Paragraph({ children: [new TextRun({ text: `Attention: ${attention}`, size: 28, color: DOCX_MUTED })] })] : []),
+    ...(hasSender(profile) ? [docxLabel('Prepared by', { before: 3600, after: 120 }), ...senderLines(DOCX_SLATE)] : []),
+    new Paragraph({ spacing: { before: 240 }, children: [new TextRun({ text: new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' }), size: 19, color: DOCX_MUTED })] })
+  ] : [];
+
+  const headerTable = new Table({
+    width: { size: DOCX_CONTENT_WIDTH, type: WidthType.DXA },
+    columnWidths: [7080, 3000],
+    borders: DOCX_NO_BORDERS,
+    rows: [new TableRow({
+      children: [
+        new TableCell({
+          width: { size: 7080, type: WidthType.DXA },
+          shading: band ? { type: ShadingType.CLEAR, fill: primary, color: 'auto' } : undefined,
+          margins: band ? { top: 300, bottom: 300, left: 300, right: 300 } : undefined,
+          children: [
+            ...(logo && !profile.coverPage ? [logo] : []),
+            new Paragraph({ spacing: { after: 160 }, children: [new TextRun({ text: profile.proposalTitle, bold: true, allCaps: true, size: profile.layout === 'classic' ? 26 : 20, color: band ? 'FFFFFF' : profile.layout === 'minimal' ? '64748B' : primary, characterSpacing: profile.layout === 'classic' ? 0 : 40 })] }),
+            ...(memberLogo && !profile.coverPage ? [memberLogo] : []),
+            new Paragraph({ heading: HeadingLevel.TITLE, spacing: { after: 80 }, children: [new TextRun({ text: business.businessName, bold: true, size: 56, color: band ? 'FFFFFF' : '0F172A', font: profile.headingFont })] }),
+            ...(profile.fiscalYearLabel ? [new Paragraph({ children: [new TextRun({ text: `Prepared for ${profile.fiscalYearLabel}`, size: 22, color: band ? 'E2E8F0' : DOCX_MUTED })] })] : []),
+            ...(attention ? [new Paragraph({ children: [new TextRun({ text: `Attention: ${attention}`, size: 22, color: band ? 'E2E8F0' : DOCX_MUTED })] })] : [])
+          ]
+        }),
+        new TableCell({
+          width: { size: 3000, type: WidthType.DXA },
+          verticalAlign: VerticalAlign.CENTER,
+          shading: { type: ShadingType.CLEAR, fill: 'F8FAFC', color: 'auto' },
+          borders: DOCX_CARD_BORDERS,
+          margins: { top: 200, bottom: 200, left: 200, right: 200 },
+          children: [
+            docxLabel(`${year} Total Value`),
+            new Paragraph({ children: [new TextRun({ text: formatCurrency(business.totalSpend), bold: true, size: 40, color: primary })] }),
+            ...(proposed !== null ? [
+              docxLabel(`${proposalYear(proposal)} Proposed Total`, { before: 200 }),
+              new Paragraph({ children: [new TextRun({ text: formatCurrency(proposed), bold: true, size: 32, color: '0F172A' })] })
+            ] : [])
+          ]
+        })
+      ]
+    })]
+  });
+
+  const allocationTable = docxAmountTable(Object.entries(business.products));
+
+  const reviewCards = await Promise.all(proposal.sponsorshipReviews.map(async item => {
+    const image = await docxImage(item.imageUrl, 200, 110);
+    return [
+      ...(image ? [image] : []),
+      new Paragraph({ spacing: { after: 60 }, children: [new TextRun({ text: formatCurrency(item.amount), bold: true, size: 18, color: '334155' })] }),
+      new Paragraph({ spacing: { after: 80 }, children: [new TextRun({ text: item.name, bold: true, allCaps: true, size: 18, color: '1E293B' })] }),
+      ...docxBody(item.review, { size: 18 })
+    ];
+  }));
+
+  const recommendationCards = await Promise.all(proposal.recommendations.map(async (rec, idx) => {
+    const image = await docxImage(rec.imageUrl, 200, 140);
+    return [
+      ...(image ? [image] : []),
+      new Paragraph({
+        spacing: { after: 100 },
+        children: [new TextRun({ text: ` PRIORITY ${idx + 1} `, bold: true, size: 14, color: 'FFFFFF', shading: { type: ShadingType.CLEAR, fill: primary, color: 'auto' } })]
+      }),
+      new Paragraph({ spacing: { after: 100 }, children: [new TextRun({ text: rec.program, bold: true, size: 26, color: '0F172A' })] }),
+      ...(rec.tier ? [new Paragraph({ spacing: { after: 100 }, children: [new TextRun({ text: rec.tier, bold: true, allCaps: true, size: 16, color: accent })] })] : []),
+      ...docxBody(rec.reasoning, { size: 19, italics: true }),
+      docxLabel('Target Allocation', { before: 160 }),
+      new Paragraph({ children: [new TextRun({ text: rec.suggestedInvestment, bold: true, size: 28, color: '0F172A' })] })
+    ];
+  }));
+
+  const senderWidth = hasSender(profile) ? 2880 : 0;
+  const notesWidth = 6480 - senderWidth;
+  const footerTable = new Table({
+    width: { size: DOCX_CONTENT_WIDTH, type: WidthType.DXA },
+    columnWidths: senderWidth ? [notesWidth, senderWidth, 3600] : [notesWidth, 3600],
+    borders: { ...DOCX_NO_BORDERS, top: { style: BorderStyle.SINGLE, size: 4, color: 'F1F5F9' } },
+    rows: [new TableRow({
+      cantSplit: true,
+      children: [
+        new TableCell({
+          width: { size: notesWidth, type: WidthType.DXA },
+          margins: { top: 400, right: 400 },
+          children: [
+            new Paragraph({ spacing: { after: 120 }, children: [new TextRun({ text: 'Notes & Next Steps', bold: true, size: 20, color: '1E293B' })] }),
+            ...(proposal.notes ? docxBody(proposal.notes, { size: 19 }) : [new Paragraph('')])
+          ]
+        }),
+        ...(senderWidth ? [new TableCell({
+          width: { size: senderWidth, type: WidthType.DXA },
+          margins: { top: 400, right: 300 },
+          children: [docxLabel('Prepared by', { after: 120 }), ...senderLines('64748B')]
+        })] : []),
+        new TableCell({
+          width: { size: 3600, type: WidthType.DXA },
+          margins: { top: 400 },
+          verticalAlign: VerticalAlign.BOTTOM,
+          children: [
+            new Paragraph({ spacing: { before: 600, after: 160 }, border: { bottom: { style: BorderStyle.SINGLE, size: 8, color: '0F172A', space: 1 } }, children: [] }),
+            docxLabel('Authorized Approver')
+          ]
+        })
+      ]
+    })]
+  });
+
+  const pageMargin = { top: 1080, bottom: 1080, left: 1080, right: 1080 };
+  const legalFooter = profile.legalFooter.trim()
+    ? new Footer({ children: profile.legalFooter.trim().split('\n').map(line => new Paragraph({ children: [new TextRun({ text: line, size: 14, color: DOCX_MUTED })] })) })
+    : null;
+
+  const doc = new Document({
+    creator: 'Proposal Architect',
+    title: `${business.businessName} · ${profile.proposalTitle}`,
+    // Word substitutes a similar installed font when the brand font isn't on the reader's machine
+    styles: { default: { document: { run: { font: profile.bodyFont } } } },
+    sections: [...(cover.length ? [{
+      properties: { page: { margin: pageMargin } },
+      children: cover
+    }] : []), {
+      properties: { page: { margin: pageMargin } },
+      footers: legalFooter ? { default: legalFooter } : undefined,
+      children: [
+        headerTable,
+        heading('Executive Summary'),
+        ...docxBody(proposal.summary, { size: 26 }),
+        heading('Strategic Relationship Analysis'),
+        ...docxBody(proposal.analysis),
+        heading(`${year} Spend Allocation`),
+        allocationTable,
+        ...(trend ? [
+          heading(`Spend History · ${trendLabel(trend).text}`),
+          docxAmountTable(trend.years.map(y => [String(y.year), y.totalSpend])),
+          ...(trend.lapsed.length ? docxBody(`Lapsed: ${trend.lapsed.join(', ')}`, { size: 18 }) : []),
+          ...(trend.added.length ? docxBody(`New: ${trend.added.join(', ')}`, { size: 18 }) : [])
+        ] : []),
+        heading(`${year} Portfolio Retrospective`),
+        docxCardGrid(reviewCards),
+        heading(`${proposalYear(proposal)} Strategic Recommendations`),
+        docxCardGrid(recommendationCards),
+        new Paragraph({ spacing: { before: 480 }, children: [] }),
+        footerTable
+      ]
+    }]
+  });
+
+  return Packer.toBlob(doc);
+};
+
+// --- Components ---
+
+const BatchPanel = ({
+  jobs,
+  onRetry,
+  onOpen,
+  onRetryFailed,
+  onCancelQueued,
+  onClearFinished
+}: {
+  jobs: BatchJob[];
+  onRetry: (businessName: string) => void;
+  onOpen: (businessName: string) => void;
+  onRetryFailed: () => void;
+  onCancelQueued: () => void;
+  onClearFinished: () => void;
+}) => {
+  const count = (status: BatchJob['status']) => jobs.filter(j => j.status === status).length;
+  const done = count('done');
+  const failed = count('failed');
+  const queued = count('queued');
+  const running = count('running');
+  const finished = done + failed;
+  const spent = jobs.reduce((sum, j) => sum + (j.cost ?? 0), 0);
+
+  const statusIcon: Record<BatchJob['status'], React.ReactNode> = {
+    queued: <Clock size={16} className="text-slate-300" />,
+    running: <Loader2 size={16} className="text-indigo-500 animate-spin" />,
+    done: <CheckCircle2 size={16} className="text-emerald-500" />,
+    failed: <XCircle size={16} className="text-red-500" />
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="font-bold text-slate-900 flex items-center gap-2">
+            <Layers size={18} className="text-indigo-500" />
+            Batch Generation
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            {finished} of {jobs.length} finished · {running} running · {queued} queued
+            {failed > 0 && <span className="text-red-600 font-semibold"> · {failed} failed</span>}
+            {spent > 0 && <> · {formatCost(spent)} spent{done > 0 && `, ${formatCost(spent / done)} per proposal`}</>}
+          </p>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          {failed > 0 && (
+            <button onClick={onRetryFailed} className="px-3 py-1.5 rounded-lg text-sm font-semibold text-indigo-600 hover:bg-indigo-50 transition-colors flex items-center gap-1.5">
+              <RotateCcw size={14} />
+              Retry Failed
+            </button>
+          )}
+          {queued > 0 && (
+            <button onClick={onCancelQueued} className="px-3 py-1.5 rounded-lg text-sm font-semibold text-slate-600 hover:bg-slate-50 transition-colors">
+              Cancel Queued
+            </button>
+          )}
+          {finished > 0 && (
+            <button onClick={onClearFinished} className="px-3 py-1.5 rounded-lg text-sm font-semibold text-slate-600 hover:bg-slate-50 transition-colors">
+              Clear Finished
+            </button>
+          )}
+        </div>
+      </div>
+
+      <div className="h-2 bg-slate-100 rounded-full overflow-hidden flex">
+        <div className="bg-emerald-500 transition-all" style={{ width: `${(done / jobs.length) * 100}%` }} />
+        <div className="bg-red-400 transition-all" style={{ width: `${(failed / jobs.length) * 100}%` }} />
+      </div>
+
+      <div className="max-h-72 overflow-y-auto divide-y divide-slate-100 border border-slate-100 rounded-xl">
+        {jobs.map(job => (
+          <div key={job.businessName} className="flex items-center gap-3 px-4 py-2.5">
+            {statusIcon[job.status]}
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-semibold text-slate-800 truncate">{job.businessName}</div>
+              {job.error && <div className="text-xs text-red-600 line-clamp-2" title={job.error}>{job.error}</div>}
+            </div>
+            {job.cost !== undefined && job.cost > 0 && <span className="text-xs text-slate-400">{formatCost(job.cost)}</span>}
+            {job.status === 'failed' && (
+              <button onClick={() => onRetry(job.businessName)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 px-2 py-1">
+                Retry
+              </button>
+            )}
+            {job.status === 'done' && (
+              <button onClick={() => onOpen(job.businessName)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 px-2 py-1 flex items-center gap-1">
+                Review
+                <ChevronRight size={14} />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const SheetPicker = ({
+  fileName,
+  workbook,
+  onSelect,
+  onCancel
+}: {
+  fileName: string;
+  workbook: XLSX.WorkBook;
+  onSelect: (sheetName: string) => void;
+  onCancel: () => void;
+}) => {
+  // Parse every sheet up front so the list can show which tabs actually contain member spend
+  const sheets = useMemo(() => workbook.SheetNames.map(name => {
+    const table = sheetToTable(workbook.Sheets[name]);
+    return { name, rows: table.rows.length, businesses: parseSpendTable(table).businesses.length };
+  }), [workbook]);
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 no-print">
+      <div className="bg-white rounded-3xl shadow-2xl border border-slate-200 w-full max-w-lg max-h-[80vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <FileSpreadsheet size={20} className="text-indigo-500" />
+            Choose a sheet
+          </h2>
+          <p className="text-sm text-slate-500 mt-1 truncate" title={fileName}>{fileName}</p>
+        </div>
+        <div className="flex-1 overflow-y-auto p-3">
+          {sheets.map(sheet => (
+            <button
+              key={sheet.name}
+              onClick={() => onSelect(sheet.name)}
+              className="w-full flex items-center justify-between gap-4 px-4 py-3 rounded-xl text-left hover:bg-indigo-50 transition-colors group"
+            >
+              <div className="min-w-0">
+                <div className="font-semibold text-slate-800 truncate group-hover:text-indigo-700">{sheet.name}</div>
+                <div className="text-xs text-slate-400">{sheet.rows} rows</div>
+              </div>
+              <div className="flex items-center gap-2 shrink-0">
+                <span className={`text-xs font-bold ${sheet.businesses > 0 ? 'text-slate-700' : 'text-slate-300'}`}>
+                  {sheet.businesses} businesses
+                </span>
+                <ChevronRight size={16} className="text-slate-300 group-hover:text-indigo-400" />
+              </div>
+            </button>
+          ))}
+        </div>
+        <div className="p-4 border-t border-slate-100 flex justify-end">
+          <button
+            onClick={onCancel}
+            className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-800 transition-colors"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const warningLabels: Record<ImportWarning['kind'], string> = {
+  negative: 'Negative',
+  duplicate: 'Duplicate',
+  'total-mismatch': 'Total mismatch',
+  formula: 'Formula',
+  'non-numeric': 'Not a number'
+};
+
+const ImportReportView = ({ report }: { report: ImportReport }) => {
+  const issueList = (title: string, issues: (ImportIssue | ImportWarning)[], tone: string) => (
+    <div>
+      <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2">{title} ({issues.length})</h4>
+      <div className="max-h-48 overflow-y-auto border border-slate-100 rounded-xl divide-y divide-slate-100">
+        {issues.map((issue, idx) => (
+          <div key={idx} className="flex items-start gap-3 px-3 py-2 text-xs">
+            <span className="shrink-0 font-mono text-slate-400 w-16">{issue.line ? `Line ${issue.line}` : '—'}</span>
+            {'kind' in issue && (
+              <span className={`shrink-0 font-bold uppercase tracking-wider text-[9px] px-1.5 py-0.5 rounded ${tone}`}>
+                {warningLabels[issue.kind]}
+              </span>
+            )}
+            <span className="text-slate-600">{issue.message}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {[
+          { label: 'Rows Read', value: report.rowsRead, className: 'text-slate-700' },
+          { label: 'Accepted', value: report.rowsAccepted, className: 'text-emerald-600' },
+          { label: 'Skipped', value: report.skipped.length, className: report.skipped.length ? 'text-red-600' : 'text-slate-300' },
+          { label: 'Warnings', value: report.warnings.length, className: report.warnings.length ? 'text-amber-600' : 'text-slate-300' }
+        ].map(stat => (
+          <div key={stat.label} className="bg-slate-50 rounded-xl border border-slate-100 px-4 py-3">
+            <div className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{stat.label}</div>
+            <div className={`text-2xl font-black ${stat.className}`}>{stat.value}</div>
+          </div>
+        ))}
+      </div>
+      {report.skipped.length > 0 && issueList('Skipped Rows', report.skipped, '')}
+      {report.warnings.length > 0 && issueList('Warnings', report.warnings, 'bg-amber-50 text-amber-700')}
+    </div>
+  );
+};
+
+const ColumnMapper = ({
+  sourceName,
+  table,
+  existingYears,
+  onConfirm,
+  onCancel
+}: {
+  sourceName: string;
+  table: ImportTable;
+  existingYears: number[];
+  onConfirm: (mapping: ColumnMapping, year: number, merge: boolean) => void;
+  onCancel: () => void;
+}) => {
+  const { rows } = table;
+  const headerRow = rows[0] || [];
+  const savedMapping = useMemo(() => loadSavedMapping(headerRow), [table]);
+  const [mapping, setMapping] = useState<ColumnMapping>(() => savedMapping || detectColumnMapping(headerRow));
+  const [year, setYear] = useState(() => detectSpendYear(sourceName) ?? (existingYears.length ? existingYears[existingYears.length - 1] : DEFAULT_SPEND_YEAR));
+  const [merge, setMerge] = useState(existingYears.length > 0);
+  const validYear = Number.isInteger(year) && year >= 1990 && year <= 2100;
+
+  const { businesses: preview, report } = useMemo(() => parseSpendTable(table, mapping), [table, mapping]);
+  const previewTotal = preview.reduce((sum, b) => sum + b.totalSpend, 0);
+
+  const businessGuessed = !savedMapping && findBusinessColumn(headerRow.map(h => h.trim().toLowerCase())) === -1;
+  const missingSpend = mapping.format === 'long' && mapping.spendIdx === -1;
+
+  const columnLabel = (idx: number) => headerRow[idx] || `Column ${idx + 1}`;
+
+  const roleOf = (idx: number) => {
+    if (idx === mapping.businessIdx) return 'business';
+    if (idx === mapping.totalIdx) return 'total';
+    if (mapping.format === 'long') {
+      if (idx === mapping.productIdx) return 'product';
+      if (idx === mapping.spendIdx) return 'spend';
+      return null;
+    }
+    return headerRow[idx]?.trim() ? 'program' : null;
+  };
+
+  const roleStyles: Record<string, string> = {
+    business: 'bg-indigo-50 text-indigo-700',
+    product: 'bg-amber-50 text-amber-700',
+    spend: 'bg-emerald-50 text-emerald-700',
+    program: 'bg-emerald-50/50 text-emerald-700',
+    total: 'bg-slate-100 text-slate-500'
+  };
+
+  const columnSelect = (label: string, key: 'businessIdx' | 'productIdx' | 'spendIdx' | 'totalIdx', allowNone: boolean) => (
+    <label className="flex flex-col gap-1">
+      <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{label}</span>
+      <select
+        value={mapping[key]}
+        onChange={(e) => setMapping(prev => ({ ...prev, [key]: Number(e.target.value) }))}
+        className="bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-indigo-300"
+      >
+        {allowNone && <option value={-1}>— None —</option>}
+        {headerRow.map((_, idx) => (
+          <option key={idx} value={idx}>{columnLabel(idx)}</option>
+        ))}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 no-print">
+      <div className="bg-white rounded-3xl shadow-2xl border border-slate-200 w-full max-w-5xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Columns3 size={20} className="text-indigo-500" />
+            Map spend columns
+          </h2>
+          <p className="text-sm text-slate-500 mt-1 truncate" title={sourceName}>
+            {sourceName} · {rows.length - 1} data rows
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-6">
+          {savedMapping && (
+            <div className="bg-indigo-50 border border-indigo-100 text-indigo-700 px-4 py-3 rounded-xl text-sm flex items-center gap-3">
+              <CheckCircle2 size={18} />
+              Using the mapping saved for this header layout.
+            </div>
+          )}
+          {businessGuessed && (
+            <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-xl text-sm flex items-center gap-3">
+              <AlertCircle size={18} />
+              No business column header was recognized, so "{columnLabel(mapping.businessIdx)}" was assumed. Check it below.
+            </div>
+          )}
+
+          <div className="flex flex-wrap items-end gap-4 bg-slate-50 border border-slate-100 rounded-2xl p-4">
+            <label className="flex flex-col gap-1">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Spend Year</span>
+              <input
+                type="number"
+                value={year}
+                onChange={(e) => setYear(Number(e.target.value))}
+                className="w-28 bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-indigo-300"
+              />
+            </label>
+            {existingYears.length > 0 && (
+              <label className="flex items-center gap-2 text-sm text-slate-600 pb-2">
+                <input type="checkbox" checked={merge} onChange={(e) => setMerge(e.target.checked)} />
+                Add to the directory's {existingYears.join(', ')} history
+              </label>
+            )}
+            <span className="text-xs text-slate-400 pb-2.5">
+              {merge && existingYears.includes(year)
+                ? `Replaces the ${year} spend already imported; other years are kept.`
+                : merge
+                  ? 'Merged per business with the years already imported.'
+                  : existingYears.length ? 'Replaces the whole directory.' : ''}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            <label className="flex flex-col gap-1">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Layout</span>
+              <select
+                value={mapping.format}
+                onChange={(e) => setMapping(prev => ({ ...prev, format: e.target.value as ColumnMapping['format'] }))}
+                className="bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-indigo-300"
+              >
+                <option value="wide">Wide (one column per program)</option>
+                <option value="long">Long (product + spend rows)</option>
+              </select>
+            </label>
+            {columnSelect('Business', 'businessIdx', false)}
+            {mapping.format === 'long' && columnSelect('Product', 'productIdx', true)}
+            {mapping.format === 'long' && columnSelect('Spend', 'spendIdx', true)}
+            {columnSelect('Total', 'totalIdx', true)}
+          </div>
+
+          <div className="overflow-x-auto border border-slate-100 rounded-2xl">
+            <table className="text-xs w-full">
+              <thead>
+                <tr>
+                  {headerRow.map((_, idx) => {
+                    const role = roleOf(idx);
+                    return (
+                      <th key={idx} className={`px-3 py-2 text-left whitespace-nowrap ${role ? roleStyles[role] : 'text-slate-300'}`}>
+                        <div className="font-bold">{columnLabel(idx)}</div>
+                        <div className="text-[9px] font-black uppercase tracking-widest opacity-70">{role || 'ignored'}</div>
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {rows.slice(1, 6).map((row, rowIdx) => (
+                  <tr key={rowIdx} className="border-t border-slate-100">
+                    {headerRow.map((_, idx) => (
+                      <td key={idx} className="px-3 py-2 text-slate-600 whitespace-nowrap max-w-[200px] truncate">{row[idx]}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <ImportReportView report={report} />
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex items-center justify-between gap-4">
+          <div className="text-sm text-slate-500">
+            {missingSpend ? (
+              <span className="text-amber-700 font-medium">Choose a spend column for the long layout.</span>
+            ) : !validYear ? (
+              <span className="text-amber-700 font-medium">Enter the year this spend covers.</span>
+            ) : (
+              <>
+                <span className="font-semibold text-slate-700">{preview.length}</span> businesses ·{' '}
+                <span className="font-semibold text-slate-700">{formatCurrency(previewTotal)}</span> total in {year}
+              </>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onConfirm(mapping, year, merge)}
+              disabled={missingSpend || !validYear || preview.length === 0}
+              className="bg-indigo-600 text-white px-5 py-2 rounded-xl text-sm font-semibold shadow-lg shadow-indigo-200 hover:bg-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Import {preview.length} Businesses
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MergeReview = ({
+  sourceName,
+  groups: initialGroups,
+  onConfirm,
+  onCancel
+}: {
+  sourceName: string;
+  groups: MergeGroup[];
+  onConfirm: (groups: MergeGroup[]) => void;
+  onCancel: () => void;
+}) => {
+  const [groups, setGroups] = useState(initialGroups);
+  const approvedCount = groups.filter(g => g.approved).length;
+  const missingName = groups.some(g => g.approved && !g.canonical.trim());
+
+  const updateGroup = (id: string, patch: Partial<MergeGroup>) =>
+    setGroups(prev => prev.map(g => (g.id === id ? { ...g, ...patch } : g)));
+
+  return (
+    <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 no-print">
+      <div className="bg-white rounded-3xl shadow-2xl border border-slate-200 w-full max-w-3xl max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b border-slate-100">
+          <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Merge size={20} className="text-indigo-500" />
+            Review possible duplicates
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            {groups.length} group{groups.length === 1 ? '' : 's'} of names in {sourceName} look like the same member. Only identical spellings start checked; check any other group you want merged. Approved merges are remembered for future imports; rejected ones are not suggested again.
+          </p>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-6 space-y-4">
+          {groups.map(group => (
+            <div key={group.id} className={`border rounded-2xl p-4 transition-colors ${group.approved ? 'border-indigo-200 bg-indigo-50/30' : 'border-slate-200'}`}>
+              <div className="flex items-center justify-between gap-4 mb-3">
+                <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+                  <input type="checkbox" checked={group.approved} onChange={(e) => updateGroup(group.id, { approved: e.target.checked })} />
+                  {group.approved ? 'Merge as one member' : 'Keep separate'}
+                </label>
+                <span className="text-xs text-slate-400">{formatCurrency(group.names.reduce((sum, n) => sum + n.spend, 0))} combined</span>
+              </div>
+              <div className="space-y-1">
+                {group.names.map(entry => (
+                  <label key={entry.name} className={`flex items-center justify-between gap-4 px-3 py-2 rounded-lg text-sm ${group.approved ? 'hover:bg-white cursor-pointer' : 'text-slate-400'}`}>
+                    <span className="flex items-center gap-2 min-w-0">
+                      <input
+                        type="radio"
+                        name={`canonical-${group.id}`}
+                        checked={group.canonical === entry.name}
+                        disabled={!group.approved}
+                        onChange={() => updateGroup(group.id, { canonical: entry.name })}
+                      />
+                      <span className="truncate font-medium">{entry.name}</span>
+                      {entry.inDirectory && (
+                        <span className="shrink-0 text-[9px] font-black uppercase tracking-wider text-slate-400 bg-slate-100 px-1.5 py-0.5 rounded">In directory</span>
+                      )}
+                    </span>
+                    <span className="shrink-0 text-xs font-semibold">{formatCurrency(entry.spend)}</span>
+                  </label>
+                ))}
+              </div>
+              {group.approved && (
+                <label className="flex items-center gap-3 mt-3">
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] shrink-0">Canonical name</span>
+                  <input
+                    value={group.canonical}
+                    onChange={(e) => updateGroup(group.id, { canonical: e.target.value })}
+                    className="flex-1 bg-white border border-slate-200 rounded-lg px-3 py-1.5 text-sm outline-none focus:border-indigo-300"
+                  />
+                </label>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div className="p-4 border-t border-slate-100 flex items-center justify-between gap-4">
+          <div className="text-sm text-slate-500">
+            {missingName ? (
+              <span className="text-amber-700 font-medium">Give every approved merge a name.</span>
+            ) : (
+              <>
+                <span className="font-semibold text-slate-700">{approvedCount}</span> to merge ·{' '}
+                <span className="font-semibold text-slate-700">{groups.length - approvedCount}</span> kept separate
+              </>
+            )}
+          </div>
+          <div className="flex gap-3">
+            <button
+              onClick={onCancel}
+              className="px-4 py-2 text-sm font-medium text-slate-500 hover:text-slate-800 transition-colors"
+            >
+              Cancel Import
+            </button>
+            <button
+              onClick={() => onConfirm(groups)}
+              disabled={missingName}
+              className="bg-indigo-600 text-white px-5 py-2 rounded-xl text-sm font-semibold shadow-lg shadow-indigo-200 hover:bg-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Apply and Import
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const availabilityStyles: Record<CatalogProgram['availability'], string> = {
+  available: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+  limited: 'bg-amber-50 text-amber-700 border-amber-200',
+  'sold-out': 'bg-red-50 text-red-700 border-red-200',
+  unknown: 'bg-slate-50 text-slate-500 border-slate-200'
+};
+
+const ProgramCatalog = ({
+  programs,
+  pdfs,
+  extracting,
+  fiscalYear,
+  onChange,
+  onExtract,
+  onClose
+}: {
+  programs: CatalogProgram[];
+  pdfs: ProgramPdf[];
+  extracting: boolean;
+  fiscalYear: number;
+  onChange: (programs: CatalogProgram[]) => void;
+  onExtract: () => void;
+  onClose: () => void;
+}) => {
+  const inputClass = 'w-full bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm outline-none focus:border-indigo-300';
+
+  const updateProgram = (id: string, changes: Partial<CatalogProgram>) =>
+    onChange(programs.map(p => (p.id === id ? { ...p, ...changes } : p)));
+
+  const updateTier = (program: CatalogProgram, index: number, changes: Partial<ProgramTier>) =>
+    updateProgram(program.id, { tiers: program.tiers.map((t, i) => (i === index ? { ...t, ...changes } : t)) });
+
+  const addProgram = () =>
+    onChange([...programs, {
+      id: createId(),
+      name: 'New Program',
+      description: '',
+      tiers: [],
+      attendance: '',
+      audience: '',
+      dates: '',
+      availability: 'available',
+      sourcePdf: ''
+    }]);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <button onClick={onClose} className="flex items-center gap-2 text-slate-500 hover:text-slate-800 transition-colors font-medium mb-3">
+            <ArrowLeft size={20} />
+            Back to Dashboard
+          </button>
+          <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+            <BookOpen className="text-indigo-600" />
+            {fiscalYear} Program Catalog
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            {programs.length} programs from {pdfs.length} PDFs. Proposals are generated from this catalog instead of the raw PDFs, so correct anything the extraction got wrong.
+          </p>
+        </div>
+        <div className="flex gap-3">
+          <button
+            onClick={onExtract}
+            disabled={extracting || pdfs.length === 0}
+            className="bg-white text-slate-700 px-5 py-2.5 rounded-xl font-semibold border border-slate-200 hover:border-indigo-300 hover:text-indigo-700 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            {extracting ? <Loader2 size={18} className="animate-spin" /> : <RefreshCw size={18} />}
+            {extracting ? 'Extracting...' : 'Re-extract from PDFs'}
+          </button>
+          <button
+            onClick={addProgram}
+            className="bg-indigo-600 text-white px-5 py-2.5 rounded-xl font-semibold shadow-lg shadow-indigo-200 hover:bg-indigo-700 transition-all flex items-center gap-2"
+          >
+            <Plus size={18} />
+            Add Program
+          </button>
+        </div>
+      </div>
+
+      {programs.length === 0 ? (
+        <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-16 text-center text-slate-500">
+          {extracting
+            ? 'Reading the program PDFs...'
+            : pdfs.length === 0
+              ? 'Upload the Events Blueprint PDFs to build the catalog, or add programs by hand.'
+              : 'No programs yet. Extract them from the uploaded PDFs or add them by hand.'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {programs.map(program => (
+            <div key={program.id} className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+              <div className="flex items-start gap-3">
+                <input
+                  value={program.name}
+                  onChange={(e) => updateProgram(program.id, { name: e.target.value })}
+                  className="flex-1 text-lg font-bold text-slate-900 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-indigo-300 outline-none"
+                />
+                <select
+                  value={program.availability}
+                  onChange={(e) => updateProgram(program.id, { availability: e.target.value as CatalogProgram['availability'] })}
+                  className={`text-xs font-semibold border rounded-full px-2 py-1 outline-none ${availabilityStyles[program.availability]}`}
+                >
+                  {PROGRAM_AVAILABILITY.map(a => <option key={a} value={a}>{a}</option>)}
+                </select>
+                <button
+                  onClick={() => onChange(programs.filter(p => p.id !== program.id))}
+                  title="Remove program"
+                  className="text-slate-300 hover:text-red-500 transition-colors"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+
+              <textarea
+                value={program.description}
+                onChange={(e) => updateProgram(program.id, { description: e.target.value })}
+                placeholder="Description"
+                rows={2}
+                className={`${inputClass} resize-y`}
+              />
+
+              <div className="grid grid-cols-3 gap-3 text-xs">
+                {(['dates', 'attendance', 'audience'] as const).map(field => (
+                  <label key={field} className="space-y-1">
+                    <span className="font-bold text-slate-400 uppercase tracking-widest">{field}</span>
+                    <input
+                      value={program[field]}
+                      onChange={(e) => updateProgram(program.id, { [field]: e.target.value })}
+                      className={inputClass}
+                    />
+                  </label>
+                ))}
+              </div>
+
+              <div>
+                <div className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Sponsorship Tiers</div>
+                <div className="space-y-2">
+                  {program.tiers.map((tier, idx) => (
+                    <div key={idx} className="flex items-center gap-2">
+                      <input
+                        value={tier.name}
+                        onChange={(e) => updateTier(program, idx, { name: e.target.value })}
+                        placeholder="Tier"
+                        className={`${inputClass} w-1/3`}
+                      />
+                      <input
+                        type="number"
+                        value={tier.price ?? ''}
+                        onChange={(e) => updateTier(program, idx, { price: e.target.value === '' ? null : Number(e.target.value) })}
+                        placeholder="Price"
+                        className={`${inputClass} w-28`}
+                      />
+                      <input
+                        type="number"
+                        min={0}
+                        value={tier.slots ?? ''}
+                        onChange={(e) => updateTier(program, idx, { slots: e.target.value === '' ? null : Math.max(0, Math.floor(Number(e.target.value))) })}
+                        placeholder="Slots ∞"
+                        title="Sponsors this tier can take; leave empty for unlimited"
+                        className={`${inputClass} w-24`}
+                      />
+                      <input
+                        value={tier.benefits || ''}
+                        onChange={(e) => updateTier(program, idx, { benefits: e.target.value })}
+                        placeholder="Benefits"
+                        className={`${inputClass} flex-1`}
+                      />
+                      <button
+                        onClick={() => updateProgram(program.id, { tiers: program.tiers.filter((_, i) => i !== idx) })}
+                        title="Remove tier"
+                        className="text-slate-300 hover:text-red-500 transition-colors"
+                      >
+                        <X size={14} />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+                <button
+                  onClick={() => updateProgram(program.id, { tiers: [...program.tiers, { name: '', price: null }] })}
+                  className="mt-2 text-xs font-semibold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+                >
+                  <Plus size={12} />
+                  Add Tier
+                </button>
+              </div>
+
+              <div className="text-[10px] text-slate-400 uppercase tracking-widest">
+                {program.sourcePdf ? `From ${program.sourcePdf}` : 'Added by hand'}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const claimStatusStyles: Record<SlotClaim['status'], string> = {
+  proposed: 'bg-slate-50 text-slate-600 border-slate-200',
+  held: 'bg-amber-50 text-amber-700 border-amber-200',
+  sold: 'bg-emerald-50 text-emerald-700 border-emerald-200'
+};
+
+const CLAIM_STATUSES: SlotClaim['status'][] = ['proposed', 'held', 'sold'];
+
+const DirectoryFilters = ({
+  filter,
+  programs,
+  segments,
+  activeSegmentId,
+  shownCount,
+  onChange,
+  onSaveSegment,
+  onApplySegment,
+  onDeleteSegment,
+  onSelectForBatch
+}: {
+  filter: DirectoryFilter;
+  programs: string[];
+  segments: Segment[];
+  activeSegmentId: string | null;
+  shownCount: number;
+  onChange: (filter: DirectoryFilter) => void;
+  onSaveSegment: (name: string) => void;
+  onApplySegment: (segment: Segment) => void;
+  onDeleteSegment: (id: string) => void;
+  onSelectForBatch: () => void;
+}) => {
+  const filtered = activeFilterCount(filter) > 0;
+  const inputClass = 'bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none focus:border-indigo-300';
+
+  const programPicker = (key: 'bought' | 'notBought', label: string, chipClass: string) => (
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-slate-500">{label}</span>
+      {filter[key].map(program => (
+        <span key={program} className={`flex items-center gap-1 text-xs font-semibold rounded-full pl-2.5 pr-1.5 py-1 ${chipClass}`}>
+          {program}
+          <button
+            onClick={() => onChange({ ...filter, [key]: filter[key].filter(p => p !== program) })}
+            title="Remove"
+            className="opacity-60 hover:opacity-100"
+          >
+            <X size={12} />
+          </button>
+        </span>
+      ))}
+      <select
+        value=""
+        onChange={(e) => e.target.value && onChange({ ...filter, [key]: [...filter[key], e.target.value] })}
+        className={`${inputClass} max-w-[12rem] text-slate-500`}
+      >
+        <option value="">+ Program</option>
+        {programs.filter(p => !filter.bought.includes(p) && !filter.notBought.includes(p)).map(p => (
+          <option key={p} value={p}>{p}</option>
+        ))}
+      </select>
+    </div>
+  );
+
+  return (
+    <div className="bg-white p-4 rounded-2xl shadow-sm border border-slate-200 space-y-3 text-sm">
+      <div className="flex flex-wrap items-center gap-x-6 gap-y-3">
+        <label className="flex items-center gap-2">
+          <ArrowUpDown size={16} className="text-slate-400" />
+          <select
+            value={filter.sort}
+            onChange={(e) => onChange({ ...filter, sort: e.target.value as DirectoryFilter['sort'] })}
+            className={inputClass}
+          >
+            {(Object.keys(SORT_LABELS) as DirectoryFilter['sort'][]).map(key => (
+              <option key={key} value={key}>{SORT_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+        <div className="flex items-center gap-2">
+          <span className="text-slate-500">Spend</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder="Min"
+            value={filter.minSpend}
+            onChange={(e) => onChange({ ...filter, minSpend: e.target.value })}
+            className={`${inputClass} w-24`}
+          />
+          <span className="text-slate-400">to</span>
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder="Max"
+            value={filter.maxSpend}
+            onChange={(e) => onChange({ ...filter, maxSpend: e.target.value })}
+            className={`${inputClass} w-24`}
+          />
+        </div>
+        {programPicker('bought', 'Bought', 'bg-emerald-50 text-emerald-700')}
+        {programPicker('notBought', "Didn't buy", 'bg-red-50 text-red-700')}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 pt-3 border-t border-slate-100">
+        <Filter size={14} className="text-slate-400" />
+        {segments.length === 0 && <span className="text-slate-400 text-xs">No saved segments yet.</span>}
+        {segments.map(segment => (
+          <span
+            key={segment.id}
+            className={`flex items-center gap-1 rounded-full border text-xs font-semibold pl-3 pr-1.5 py-1 ${segment.id === activeSegmentId ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+          >
+            <button onClick={() => onApplySegment(segment)} title={describeFilter(segment.filter)}>{segment.name}</button>
+            <button
+              onClick={() => onDeleteSegment(segment.id)}
+              title="Delete segment"
+              className="opacity-50 hover:opacity-100"
+            >
+              <X size={12} />
+            </button>
+          </span>
+        ))}
+        <div className="flex-1" />
+        {filtered && (
+          <>
+            <button onClick={() => onChange({ ...DEFAULT_DIRECTORY_FILTER, sort: filter.sort })} className="text-xs font-semibold text-slate-500 hover:text-slate-800">
+              Clear Filters
+            </button>
+            <button
+              onClick={() => {
+                const name = window.prompt('Name this segment', describeFilter(filter));
+                if (name?.trim()) onSaveSegment(name.trim());
+              }}
+              className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+            >
+              <Plus size={12} />
+              Save Segment
+            </button>
+          </>
+        )}
+        <button
+          onClick={onSelectForBatch}
+          disabled={shownCount === 0}
+          className="flex items-center gap-1 text-xs font-semibold bg-indigo-50 text-indigo-700 border border-indigo-100 rounded-lg px-3 py-1.5 hover:bg-indigo-100 transition-colors disabled:opacity-50"
+        >
+          <Layers size={12} />
+          Propose to {shownCount} Shown
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const MediaLibrary = ({
+  items,
+  initialQuery = '',
+  onSelect,
+  onSave,
+  onRemove
+}: {
+  items: MediaItem[];
+  initialQuery?: string;
+  onSelect?: (item: MediaItem) => void;
+  onSave: (item: MediaItem) => void;
+  onRemove: (id: string) => void;
+}) => {
+  const [query, setQuery] = useState(initialQuery);
+  const [editing, setEditing] = useState<{ id: string; description: string; tags: string } | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const shown = useMemo(() => searchMedia(items, query), [items, query]);
+  const inputClass = 'w-full bg-white border border-slate-200 rounded-lg px-2 py-1 text-xs outline-none focus:border-indigo-300';
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []) as File[];
+    e.target.value = '';
+    if (!files.length) return;
+    setUploading(true);
+    setUploadError(null);
+    const failed: string[] = [];
+    try {
+      for (const file of files) {
+        const label = file.name.replace(/\.[^.]+$/, '').replace(/[-_]+/g, ' ');
+        try {
+          onSave({
+            id: createId(),
+            dataUrl: await photoDataUrlFromFile(file),
+            description: label,
+            tags: mediaTagsFor(label),
+            source: 'uploaded',
+            createdAt: Date.now()
+          });
+        } catch (err: any) {
+          console.error(`Could not upload ${file.name}:`, err);
+          failed.push(file.name);
+        }
+      }
+    } finally {
+      setUploading(false);
+      if (failed.length) setUploadError(`Could not read ${failed.join(', ')} as ${failed.length === 1 ? 'an image' : 'images'}.`);
+    }
+  };
+
+  const saveEdit = (item: MediaItem) => {
+    if (!editing) return;
+    onSave({
+      ...item,
+      description: editing.description.trim(),
+      tags: Array.from(new Set(editing.tags.split(',').map(t => t.trim().toLowerCase()).filter(Boolean)))
+    });
+    setEditing(null);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-3">
+        <div className="flex-1 min-w-[14rem] flex items-center gap-2 bg-white border border-slate-200 rounded-xl px-3 py-2">
+          <Search size={16} className="text-slate-400" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search tags and descriptions..."
+            className="flex-1 bg-transparent outline-none text-sm"
+          />
+        </div>
+        <span className="text-sm text-slate-400">{shown.length} of {items.length} images</span>
+        <label className="flex items-center gap-2 bg-indigo-600 text-white px-4 py-2 rounded-xl text-sm font-semibold shadow-lg shadow-indigo-200 hover:bg-indigo-700 cursor-pointer transition-all">
+          {uploading ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+          Upload Photos
+          <input type="file" accept="image/*" multiple className="hidden" onChange={handleUpload} />
+        </label>
+      </div>
+
+      {uploadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl flex items-center gap-3 text-sm">
+          <AlertCircle size={18} />
+          {uploadError}
+        </div>
+      )}
+
+      {shown.length === 0 ? (
+        <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-16 text-center text-slate-500 text-sm">
+          {items.length
+            ? 'No images match that search.'
+            : 'No images yet. Upload event photos, or generate a proposal and its images will be saved here for reuse.'}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-4 gap-4">
+          {shown.map(item => (
+            <div key={item.id} className="bg-white border border-slate-200 rounded-2xl overflow-hidden group">
+              <button
+                onClick={() => onSelect?.(item)}
+                disabled={!onSelect}
+                className="block w-full aspect-video bg-slate-100 overflow-hidden disabled:cursor-default"
+              >
+                <img src={item.dataUrl} alt={item.description} className={`w-full h-full object-cover ${onSelect ? 'group-hover:scale-105 transition-transform duration-500' : ''}`} />
+              </button>
+              <div className="p-3 space-y-2">
+                {editing?.id === item.id ? (
+                  <>
+                    <textarea
+                      value={editing.description}
+                      onChange={(e) => setEditing({ ...editing, description: e.target.value })}
+                      rows={2}
+                      className={`${inputClass} resize-none`}
+                    />
+                    <input
+                      value={editing.tags}
+                      onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+                      placeholder="Tags, comma separated"
+                      className={inputClass}
+                    />
+                    <div className="flex justify-end gap-2">
+                      <button onClick={() => setEditing(null)} className="text-xs font-medium text-slate-500 hover:text-slate-800">Cancel</button>
+                      <button onClick={() => saveEdit(item)} className="text-xs font-semibold text-indigo-600 hover:text-indigo-800">Save</button>
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-xs text-slate-600 line-clamp-2" title={item.description}>{item.description || 'No description'}</p>
+                    <div className="flex flex-wrap gap-1">
+                      {item.tags.map(tag => (
+                        <button key={tag} onClick={() => setQuery(tag)} className="text-[10px] bg-slate-100 text-slate-500 hover:text-indigo-600 rounded px-1.5 py-0.5">
+                          {tag}
+                        </button>
+                      ))}
+                    </div>
+                    <div className="flex items-center justify-between pt-1">
+                      <span className="text-[9px] font-black uppercase tracking-wider text-slate-300">{item.source}</span>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setEditing({ id: item.id, description: item.description, tags: item.tags.join(', ') })}
+                          title="Edit tags"
+                          className="text-slate-300 hover:text-indigo-600 transition-colors"
+                        >
+                          <Pencil size={14} />
+                        </button>
+                        <button
+                          onClick={() => window.confirm("Delete this image from the library? Proposals already using it keep their copy.") && onRemove(item.id)}
+                          title="Delete"
+                          className="text-slate-300 hover:text-red-500 transition-colors"
+                        >
+                          <Trash2 size={14} />
+                        </button>
+                      </div>
+                    </div>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const PortfolioAnalytics = ({
+  businesses,
+  onOpen,
+  onClose
+}: {
+  businesses: BusinessSpend[];
+  onOpen: (biz: BusinessSpend) => void;
+  onClose: () => void;
+}) => {
+  const stats = useMemo(() => portfolioStats(businesses), [businesses]);
+  const [programSort, setProgramSort] = useState<'revenue' | 'sponsors'>('revenue');
+  // One drill-down list at a time: a spend band, a program's sponsors, or the single-program members
+  const [drill, setDrill] = useState<{ title: string; members: BusinessSpend[] } | null>(null);
+  const year = businesses.length ? spendYear(businesses[0]) : DEFAULT_SPEND_YEAR;
+
+  const programs = [...stats.programs]
+    .sort((a, b) => (programSort === 'revenue' ? b.revenue - a.revenue : b.sponsors.length - a.sponsors.length || b.revenue - a.revenue))
+    .slice(0, 12);
+  const programMax = Math.max(1, ...programs.map(p => (programSort === 'revenue' ? p.revenue : p.sponsors.length)));
+  const bandMax = Math.max(1, ...stats.bands.map(b => b.members.length));
+  const yearMax = Math.max(1, ...stats.years.map(y => y.revenue));
+
+  const card = 'bg-white rounded-2xl shadow-sm border border-slate-200 p-6';
+  const heading = 'text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-4';
+
+  const memberRow = (biz: BusinessSpend, detail?: React.ReactNode) => (
+    <button
+      key={biz.businessName}
+      onClick={() => onOpen(biz)}
+      className="w-full flex items-center justify-between gap-4 px-3 py-2 rounded-lg text-left text-sm hover:bg-indigo-50 transition-colors group"
+    >
+      <span className="truncate font-medium text-slate-700 group-hover:text-indigo-700">{biz.businessName}</span>
+      <span className="shrink-0 flex items-center gap-3 text-xs">
+        {detail}
+        <span className="font-bold text-slate-800">{formatCurrency(biz.totalSpend)}</span>
+        <ChevronRight size={14} className="text-slate-300 group-hover:text-indigo-400" />
+      </span>
+    </button>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <button onClick={onClose} className="flex items-center gap-2 text-slate-500 hover:text-slate-800 transition-colors font-medium mb-3">
+          <ArrowLeft size={20} />
+          Back to Dashboard
+        </button>
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+          <BarChart3 className="text-indigo-600" />
+          Portfolio Analytics
+        </h2>
+        <p className="text-sm text-slate-500 mt-1">{year} spend across the imported directory. Click any member to open their proposal.</p>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+        {[
+          { label: 'Total Revenue', value: formatCurrency(stats.totalRevenue), className: 'text-indigo-600' },
+          { label: 'Members', value: stats.memberCount.toLocaleString('en-US'), className: 'text-slate-900' },
+          { label: 'Average Spend', value: formatInvestment(stats.averageSpend), className: 'text-slate-900' },
+          { label: 'Median Spend', value: formatInvestment(stats.medianSpend), className: 'text-slate-900' },
+          { label: `Top ${TOP_MEMBER_COUNT} Share`, value: `${Math.round(stats.topShare * 100)}%`, className: stats.topShare > 0.5 ? 'text-amber-600' : 'text-slate-900' }
+        ].map(stat => (
+          <div key={stat.label} className="bg-white border border-slate-200 rounded-2xl px-5 py-4">
+            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{stat.label}</div>
+            <div className={`text-2xl font-black ${stat.className}`}>{stat.value}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className={card}>
+          <h3 className={heading}>Spend Distribution</h3>
+          <div className="flex items-end gap-3 h-48">
+            {stats.bands.map(band => (
+              <button
+                key={band.label}
+                onClick={() => setDrill({ title: `Members spending ${band.label}`, members: band.members })}
+                disabled={band.members.length === 0}
+                title={`${band.members.length} members · ${formatCurrency(band.revenue)}`}
+                className="flex-1 h-full flex flex-col justify-end items-center gap-1 group disabled:cursor-default"
+              >
+                <span className="text-xs font-bold text-slate-700">{band.members.length}</span>
+                <div
+                  className="w-full rounded-t-lg bg-indigo-200 group-hover:bg-indigo-400 group-disabled:bg-slate-100 transition-colors"
+                  style={{ height: `${Math.max(2, (band.members.length / bandMax) * 100)}%` }}
+                />
+                <span className="text-[10px] text-slate-400 whitespace-nowrap">{band.label}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className={card}>
+          <div className="flex items-center justify-between mb-4">
+            <h3 className={`${heading} mb-0`}>Top Programs</h3>
+            <div className="flex bg-slate-100 rounded-lg p-0.5 text-xs font-semibold">
+              {(['revenue', 'sponsors'] as const).map(key => (
+                <button
+                  key={key}
+                  onClick={() => setProgramSort(key)}
+                  className={`px-3 py-1 rounded-md capitalize transition-colors ${programSort === key ? 'bg-white text-slate-900 shadow-sm' : 'text-slate-500'}`}
+                >
+                  {key}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            {programs.map(program => (
+              <button
+                key={program.name}
+                onClick={() => setDrill({ title: `Sponsors of ${program.name}`, members: program.sponsors })}
+                className="w-full text-left group"
+              >
+                <div className="flex justify-between gap-4 text-xs mb-1">
+                  <span className="truncate font-medium text-slate-700 group-hover:text-indigo-700">{program.name}</span>
+                  <span className="shrink-0 text-slate-500">
+                    <span className="font-bold text-slate-800">{formatCurrency(program.revenue)}</span> · {program.sponsors.length} sponsor{program.sponsors.length === 1 ? '' : 's'}
+                  </span>
+                </div>
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div
+                    className="h-full bg-indigo-400 group-hover:bg-indigo-500 transition-colors"
+                    style={{ width: `${((programSort === 'revenue' ? program.revenue : program.sponsors.length) / programMax) * 100}%` }}
+                  />
+                </div>
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className={card}>
+          <h3 className={heading}>Concentration · Top {TOP_MEMBER_COUNT} Members</h3>
+          <div className="h-3 bg-slate-100 rounded-full overflow-hidden mb-1">
+            <div className="h-full bg-indigo-500" style={{ width: `${stats.topShare * 100}%` }} />
+          </div>
+          <p className="text-xs text-slate-500 mb-4">
+            {Math.round(stats.topShare * 100)}% of revenue comes from the top {Math.min(TOP_MEMBER_COUNT, stats.memberCount)} of {stats.memberCount} members.
+          </p>
+          <div className="divide-y divide-slate-50">
+            {stats.topMembers.map(biz => memberRow(biz, (
+              <span className="text-slate-400">{stats.totalRevenue ? `${((biz.totalSpend / stats.totalRevenue) * 100).toFixed(1)}%` : ''}</span>
+            )))}
+          </div>
+        </div>
+
+        <div className={card}>
+          <h3 className={heading}>Single-Program Members ({stats.singleProgram.length})</h3>
+          <p className="text-xs text-slate-500 mb-4">
+            Members who bought only one program in {year}: the easiest conversations for a second.
+          </p>
+          <div className="divide-y divide-slate-50 max-h-80 overflow-y-auto">
+            {stats.singleProgram.slice(0, 50).map(biz => memberRow(biz, (
+              <span className="text-slate-400 truncate max-w-[10rem]">{Object.keys(biz.products)[0]}</span>
+            )))}
+          </div>
+          {stats.singleProgram.length > 50 && (
+            <button
+              onClick={() => setDrill({ title: 'Single-program members', members: stats.singleProgram })}
+              className="mt-3 text-xs font-semibold text-indigo-600 hover:text-indigo-800"
+            >
+              Show all {stats.singleProgram.length}
+            </button>
+          )}
+        </div>
+
+        {stats.years.length > 1 && (
+          <div className={`${card} lg:col-span-2`}>
+            <h3 className={heading}>Revenue by Year</h3>
+            <div className="flex items-end gap-6 h-40">
+              {stats.years.map(y => (
+                <div key={y.year} className="flex-1 h-full flex flex-col justify-end items-center gap-1">
+                  <span className="text-xs font-bold text-slate-700">{formatInvestment(y.revenue)}</span>
+                  <div className="w-full max-w-[6rem] rounded-t-lg bg-indigo-300" style={{ height: `${Math.max(2, (y.revenue / yearMax) * 100)}%` }} />
+                  <span className="text-xs text-slate-500">{y.year} · {y.members} members</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {drill && (
+        <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4" onClick={() => setDrill(null)}>
+          <div className="bg-white rounded-3xl shadow-2xl border border-slate-200 w-full max-w-lg max-h-[80vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+            <div className="p-6 border-b border-slate-100 flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <h2 className="text-lg font-bold text-slate-900 truncate">{drill.title}</h2>
+                <p className="text-sm text-slate-500 mt-1">
+                  {drill.members.length} members · {formatCurrency(drill.members.reduce((sum, b) => sum + b.totalSpend, 0))}
+                </p>
+              </div>
+              <button onClick={() => setDrill(null)} className="text-slate-400 hover:text-slate-700 transition-colors">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-3">
+              {[...drill.members].sort((a, b) => b.totalSpend - a.totalSpend).map(biz => memberRow(biz))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const UsageDashboard = ({
+  settings,
+  onSettingsChange,
+  onClose
+}: {
+  settings: UsageSettings;
+  onSettingsChange: (settings: UsageSettings) => void;
+  onClose: () => void;
+}) => {
+  const [month, setMonth] = useState(currentMonth);
+  const [report, setReport] = useState<UsageReport | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const me = clientId();
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoadError(null);
+    fetchUsageReport(month)
+      .then(next => { if (!cancelled) setReport(next); })
+      .catch(err => {
+        if (cancelled) return;
+        setReport(null);
+        setLoadError(err.message);
+      });
+    return () => { cancelled = true; };
+  }, [month]);
+
+  const card = 'bg-white rounded-2xl shadow-sm border border-slate-200 p-6';
+  const heading = 'text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-4';
+  const inputClass = 'w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-indigo-300';
+  const totals = report?.totals;
+  const budget = report?.budget ?? null;
+  const dayMax = Math.max(0.000001, ...(report?.days.map(d => d.cost) || []));
+  const usedPct = totals && budget ? (totals.cost / budget) * 100 : 0;
+
+  const totalsRow = (t: UsageTotals) => (
+    <span className="shrink-0 flex items-center gap-4 text-xs text-slate-500">
+      <span>{t.calls} calls</span>
+      {t.failures > 0 && <span className="text-red-600 font-semibold">{t.failures} failed</span>}
+      <span>{t.images} images</span>
+      <span>{formatTokens(t.promptTokens + t.outputTokens)} tokens</span>
+      <span className="font-bold text-slate-800 w-20 text-right">{formatCost(t.cost)}</span>
+    </span>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <button onClick={onClose} className="flex items-center gap-2 text-slate-500 hover:text-slate-800 transition-colors font-medium mb-3">
+            <ArrowLeft size={20} />
+            Back to Dashboard
+          </button>
+          <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+            <Gauge className="text-indigo-600" />
+            Generation Usage
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">Every model call made through the server, priced from its token counts. Days are in UTC.</p>
+        </div>
+        <input type="month" value={month} onChange={(e) => e.target.value && setMonth(e.target.value)} className={`${inputClass} w-44`} />
+      </div>
+
+      <div className={`${card} grid grid-cols-1 md:grid-cols-3 gap-4`}>
+        <label className="text-sm">
+          <span className="block text-slate-500 mb-1">Your name in the report</span>
+          <input
+            value={settings.userName}
+            onChange={(e) => onSettingsChange({ ...settings, userName: e.target.value })}
+            placeholder="e.g. Jordan Lee"
+            className={inputClass}
+          />
+        </label>
+        <div className="text-sm">
+          <span className="block text-slate-500 mb-1">Monthly budget, all users</span>
+          <div className="py-2 font-semibold text-slate-800">{budget ? formatCost(budget) : 'No budget'}</div>
+          <span className="block text-xs text-slate-400">Set with MONTHLY_BUDGET on the server</span>
+        </div>
+        <label className="text-sm">
+          <span className="block text-slate-500 mb-1">Warn at (% of budget)</span>
+          <input
+            type="number"
+            min={1}
+            max={100}
+            value={settings.warnAtPct}
+            onChange={(e) => onSettingsChange({ ...settings, warnAtPct: Math.min(100, Math.max(1, Number(e.target.value) || 80)) })}
+            className={inputClass}
+          />
+        </label>
+      </div>
+
+      {loadError && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-xl flex items-center gap-3">
+          <AlertCircle size={20} />
+          <span>Could not load usage: {loadError}</span>
+        </div>
+      )}
+
+      {totals && (
+        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+          {[
+            { label: 'Spend', value: formatCost(totals.cost), className: budget && totals.cost >= budget ? 'text-red-600' : 'text-indigo-600' },
+            { label: 'Model Calls', value: totals.calls.toLocaleString('en-US'), className: 'text-slate-900' },
+            { label: 'Failed Calls', value: totals.failures.toLocaleString('en-US'), className: totals.failures ? 'text-red-600' : 'text-slate-900' },
+            { label: 'Images', value: totals.images.toLocaleString('en-US'), className: 'text-slate-900' },
+            { label: 'Tokens', value: formatTokens(totals.promptTokens + totals.outputTokens), className: 'text-slate-900' }
+          ].map(stat => (
+            <div key={stat.label} className="bg-white border border-slate-200 rounded-2xl px-5 py-4">
+              <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">{stat.label}</div>
+              <div className={`text-2xl font-black ${stat.className}`}>{stat.value}</div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {totals && budget && (
+        <div className={card}>
+          <div className="flex justify-between text-sm mb-2">
+            <span className="font-semibold text-slate-700">{formatCost(totals.cost)} of {formatCost(budget)}</span>
+            <span className={usedPct >= 100 ? 'text-red-600 font-bold' : usedPct >= settings.warnAtPct ? 'text-amber-600 font-bold' : 'text-slate-500'}>{Math.round(usedPct)}%</span>
+          </div>
+          <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+            <div
+              className={`h-full transition-all ${usedPct >= 100 ? 'bg-red-500' : usedPct >= settings.warnAtPct ? 'bg-amber-400' : 'bg-indigo-500'}`}
+              style={{ width: `${Math.min(100, usedPct)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {report && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <div className={card}>
+            <h3 className={heading}>By Day</h3>
+            {report.days.length === 0 ? (
+              <p className="text-sm text-slate-400">No model calls this month.</p>
+            ) : (
+              <div className="space-y-1">
+                {report.days.map(day => (
+                  <div key={day.day} className="flex items-center gap-4 px-3 py-2 rounded-lg hover:bg-slate-50">
+                    <span className="w-24 shrink-0 text-sm font-medium text-slate-700">{day.day}</span>
+                    <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-indigo-300" style={{ width: `${(day.cost / dayMax) * 100}%` }} />
+                    </div>
+                    {totalsRow(day)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className={card}>
+            <h3 className={heading}>By User</h3>
+            {report.users.length === 0 ? (
+              <p className="text-sm text-slate-400">No model calls this month.</p>
+            ) : (
+              <div className="space-y-1">
+                {report.users.map(user => (
+                  <div key={user.user} className="flex items-center justify-between gap-4 px-3 py-2 rounded-lg hover:bg-slate-50">
+                    <span className="truncate text-sm font-medium text-slate-700" title={user.user}>
+                      {user.name || `Unnamed (${user.user.slice(0, 8)})`}
+                      {user.user === me && <span className="text-slate-400 font-normal"> · you</span>}
+                    </span>
+                    {totalsRow(user)}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ClaimStatusSelect = ({ claim, onChange }: { claim: SlotClaim; onChange: (status: SlotClaim['status']) => void }) => (
+  <select
+    value={claim.status}
+    onChange={(e) => onChange(e.target.value as SlotClaim['status'])}
+    className={`text-xs font-semibold border rounded-full px-2 py-1 outline-none ${claimStatusStyles[claim.status]}`}
+  >
+    {CLAIM_STATUSES.map(s => <option key={s} value={s}>{s}</option>)}
+  </select>
+);
+
+// Sell-through counts sold slots against limited tiers only; pipeline is the list price of every proposed or held claim
+const InventoryDashboard = ({
+  programs,
+  claims,
+  businessNames,
+  onStatusChange,
+  onRemove,
+  onAdd,
+  onClose
+}: {
+  programs: CatalogProgram[];
+  claims: SlotClaim[];
+  businessNames: string[];
+  onStatusChange: (id: string, status: SlotClaim['status']) => void;
+  onRemove: (id: string) => void;
+  onAdd: (claim: Omit<SlotClaim, 'id' | 'updatedAt'>) => void;
+  onClose: () => void;
+}) => {
+  const [draft, setDraft] = useState<{ programId: string; tierName: string; businessName: string; status: SlotClaim['status'] } | null>(null);
+
+  const priceOf = (claim: SlotClaim) => {
+    const program = programs.find(p => p.id === claim.programId);
+    return program?.tiers.find(t => t.name === claim.tierName)?.price ?? 0;
+  };
+
+  const stats = (program: CatalogProgram) => {
+    const own = claims.filter(c => c.programId === program.id);
+    const limitedSlots = program.tiers.reduce((sum, t) => sum + (t.slots ?? 0), 0);
+    const soldLimited = own.filter(c => c.status === 'sold' && program.tiers.find(t => t.name === c.tierName)?.slots != null).length;
+    return {
+      own,
+      limitedSlots,
+      sellThrough: limitedSlots ? soldLimited / limitedSlots : null,
+      soldValue: own.filter(c => c.status === 'sold').reduce((sum, c) => sum + priceOf(c), 0),
+      pipelineValue: own.filter(c => c.status !== 'sold').reduce((sum, c) => sum + priceOf(c), 0)
+    };
+  };
+
+  const totals = programs.map(stats).reduce(
+    (acc, s) => ({ sold: acc.sold + s.soldValue, pipeline: acc.pipeline + s.pipelineValue }),
+    { sold: 0, pipeline: 0 }
+  );
+
+  const submitDraft = () => {
+    if (!draft || !draft.tierName || !draft.businessName.trim()) return;
+    onAdd({ ...draft, businessName: draft.businessName.trim() });
+    setDraft(null);
+  };
+
+  const unmatched = claims.filter(c => {
+    const program = programs.find(p => p.id === c.programId);
+    return program && !program.tiers.some(t => t.name === c.tierName);
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-end justify-between gap-4">
+        <div>
+          <button onClick={onClose} className="flex items-center gap-2 text-slate-500 hover:text-slate-800 transition-colors font-medium mb-3">
+            <ArrowLeft size={20} />
+            Back to Dashboard
+          </button>
+          <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+            <Ticket className="text-indigo-600" />
+            Sponsorship Inventory
+          </h2>
+          <p className="text-sm text-slate-500 mt-1">
+            Held and sold claims take a slot. Generation only recommends tiers with slots left.
+          </p>
+        </div>
+        <div className="flex gap-4">
+          <div className="bg-white border border-slate-200 rounded-2xl px-5 py-3">
+            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Sold</div>
+            <div className="text-xl font-black text-emerald-600">{formatCurrency(totals.sold)}</div>
+          </div>
+          <div className="bg-white border border-slate-200 rounded-2xl px-5 py-3">
+            <div className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Pipeline</div>
+            <div className="text-xl font-black text-indigo-600">{formatCurrency(totals.pipeline)}</div>
+          </div>
+        </div>
+      </div>
+
+      {unmatched.length > 0 && (
+        <div className="bg-amber-50 border border-amber-200 text-amber-800 px-4 py-3 rounded-xl text-sm flex items-center gap-3">
+          <AlertCircle size={18} className="shrink-0" />
+          {unmatched.length} claim{unmatched.length === 1 ? '' : 's'} point{unmatched.length === 1 ? 's' : ''} at a tier that is no longer in the catalog and {unmatched.length === 1 ? 'does' : 'do'} not hold a slot. Release {unmatched.length === 1 ? 'it' : 'them'} below or restore the tier.
+        </div>
+      )}
+
+      {programs.length === 0 ? (
+        <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-16 text-center text-slate-500">
+          Build the program catalog first; inventory is tracked per catalog tier.
+        </div>
+      ) : programs.map(program => {
+        const s = stats(program);
+        return (
+          <div key={program.id} className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-4">
+              <h3 className="text-lg font-bold text-slate-900">{program.name}</h3>
+              <div className="flex gap-6 text-sm">
+                <span className="text-slate-500">
+                  Sell-through <span className="font-bold text-slate-900">{s.sellThrough === null ? '—' : `${Math.round(s.sellThrough * 100)}%`}</span>
+                </span>
+                <span className="text-slate-500">Sold <span className="font-bold text-emerald-600">{formatCurrency(s.soldValue)}</span></span>
+                <span className="text-slate-500">Pipeline <span className="font-bold text-indigo-600">{formatCurrency(s.pipelineValue)}</span></span>
+              </div>
+            </div>
+
+            {s.sellThrough !== null && (
+              <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-500 transition-all" style={{ width: `${s.sellThrough * 100}%` }} />
+              </div>
+            )}
+
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-[10px] font-bold text-slate-400 uppercase tracking-widest text-left">
+                  <th className="py-2">Tier</th>
+                  <th className="py-2 text-right">Price</th>
+                  <th className="py-2 text-right">Slots</th>
+                  <th className="py-2 text-right">Sold</th>
+                  <th className="py-2 text-right">Held</th>
+                  <th className="py-2 text-right">Proposed</th>
+                  <th className="py-2 text-right">Left</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {program.tiers.map(tier => {
+                  const count = (status: SlotClaim['status']) => s.own.filter(c => c.tierName === tier.name && c.status === status).length;
+                  const left = slotsRemaining(program, tier, claims);
+                  return (
+                    <tr key={tier.name}>
+                      <td className="py-2 font-semibold text-slate-800">{tier.name}</td>
+                      <td className="py-2 text-right text-slate-600">{tier.price == null ? '—' : formatCurrency(tier.price)}</td>
+                      <td className="py-2 text-right text-slate-600">{tier.slots ?? '∞'}</td>
+                      <td className="py-2 text-right text-slate-600">{count('sold')}</td>
+                      <td className="py-2 text-right text-slate-600">{count('held')}</td>
+                      <td className="py-2 text-right text-slate-600">{count('proposed')}</td>
+                      <td className={`py-2 text-right font-bold ${left === 0 ? 'text-red-600' : 'text-slate-900'}`}>{left === Infinity ? '∞' : left}</td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+
+            {s.own.length > 0 && (
+              <div className="border border-slate-100 rounded-xl divide-y divide-slate-100">
+                {s.own.map(claim => (
+                  <div key={claim.id} className="flex items-center gap-3 px-4 py-2 text-sm">
+                    <span className="font-semibold text-slate-800 flex-1 truncate">{claim.businessName}</span>
+                    {program.tiers.some(t => t.name === claim.tierName) ? (
+                      <span className="text-slate-500">{claim.tierName}</span>
+                    ) : (
+                      <span className="text-amber-600 font-semibold" title="This tier is no longer in the catalog; the claim does not count against any slots">
+                        {claim.tierName} · tier not in catalog
+                      </span>
+                    )}
+                    <ClaimStatusSelect claim={claim} onChange={(status) => onStatusChange(claim.id, status)} />
+                    <button onClick={() => onRemove(claim.id)} title="Release claim" className="text-slate-300 hover:text-red-500 transition-colors">
+                      <X size={14} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {program.tiers.length > 0 && (draft?.programId === program.id ? (
+              <div className="flex flex-wrap items-center gap-2 text-sm">
+                <select
+                  value={draft.tierName}
+                  onChange={(e) => setDraft({ ...draft, tierName: e.target.value })}
+                  className="bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none"
+                >
+                  {program.tiers.map(t => <option key={t.name} value={t.name}>{t.name}</option>)}
+                </select>
+                <input
+                  list="inventory-businesses"
+                  value={draft.businessName}
+                  onChange={(e) => setDraft({ ...draft, businessName: e.target.value })}
+                  placeholder="Business"
+                  className="flex-1 min-w-[12rem] bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none focus:border-indigo-300"
+                />
+                <select
+                  value={draft.status}
+                  onChange={(e) => setDraft({ ...draft, status: e.target.value as SlotClaim['status'] })}
+                  className="bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none"
+                >
+                  {CLAIM_STATUSES.map(st => <option key={st} value={st}>{st}</option>)}
+                </select>
+                <button onClick={submitDraft} className="font-semibold text-indigo-700 hover:text-indigo-900">Add</button>
+                <button onClick={() => setDraft(null)} className="font-semibold text-slate-500 hover:text-slate-800">Cancel</button>
+              </div>
+            ) : (
+              <button
+                onClick={() => setDraft({ programId: program.id, tierName: program.tiers[0].name, businessName: '', status: 'held' })}
+                className="text-xs font-semibold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+              >
+                <Plus size={12} />
+                Add Claim
+              </button>
+            ))}
+          </div>
+        );
+      })}
+
+      <datalist id="inventory-businesses">
+        {businessNames.map(name => <option key={name} value={name} />)}
+      </datalist>
+    </div>
+  );
+};
+
+const SAMPLE_BUSINESS: BusinessSpend = {
+  businessName: 'Sample Business',
+  totalSpend: 12500,
+  products: { 'Annual Meeting Table': 2500, 'Golf Classic Hole Sponsor': 10000 }
+};
+
+const PromptSettingsPanel = ({
+  settings,
+  businesses,
+  catalog,
+  catalogFor,
+  memberFor,
+  budgetRules,
+  onChange,
+  onClose
+}: {
+  settings: PromptSettings;
+  businesses: BusinessSpend[];
+  catalog: CatalogProgram[];
+  catalogFor: (businessName: string) => CatalogProgram[];
+  memberFor: (businessName: string) => MemberProfile | null;
+  budgetRules: BudgetRules;
+  onChange: (settings: PromptSettings) => void;
+  onClose: () => void;
+}) => {
+  const [selectedId, setSelectedId] = useState(settings.activeTemplateId);
+  const [previewName, setPreviewName] = useState(businesses[0]?.businessName || '');
+  const template = settings.templates.find(t => t.id === selectedId) || activeTemplate(settings);
+  const previewBusiness = businesses.find(b => b.businessName === previewName) || businesses[0] || SAMPLE_BUSINESS;
+  const unknown = unknownTemplateVariables(template.body);
+  // Kept as typed so the year can be cleared and retyped; only a plausible year is saved, on blur
+  const [fiscalYearText, setFiscalYearText] = useState(String(template.fiscalYear));
+  useEffect(() => setFiscalYearText(String(template.fiscalYear)), [template.id, template.fiscalYear]);
+  const unmatchedPins = catalog.length ? templateList(template.pinnedPrograms).filter(pin => !findPinnedOption(catalog, pin)) : [];
+  const previewBudget = budgetRules.enabled ? computeBudget(previewBusiness, budgetRules) : undefined;
+  const previewCatalog = previewBudget
+    ? affordableCatalog(catalogFor(previewBusiness.businessName), previewBudget)
+    : catalogFor(previewBusiness.businessName);
+  const inputClass = 'w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-indigo-300';
+
+  const updateTemplate = (changes: Partial<PromptTemplate>) =>
+    onChange({ ...settings, templates: settings.templates.map(t => (t.id === template.id ? { ...t, ...changes } : t)) });
+
+  const addTemplate = (base: PromptTemplate, name: string) => {
+    const copy = { ...base, id: createId(), name };
+    onChange({ ...settings, templates: [...settings.templates, copy] });
+    setSelectedId(copy.id);
+  };
+
+  const removeTemplate = () => {
+    if (settings.templates.length < 2 || !window.confirm(`Delete the template "${template.name}"?`)) return;
+    const templates = settings.templates.filter(t => t.id !== template.id);
+    const activeTemplateId = settings.activeTemplateId === template.id ? templates[0].id : settings.activeTemplateId;
+    onChange({ templates, activeTemplateId });
+    setSelectedId(activeTemplateId);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <button onClick={onClose} className="flex items-center gap-2 text-slate-500 hover:text-slate-800 transition-colors font-medium mb-3">
+          <ArrowLeft size={20} />
+          Back to Dashboard
+        </button>
+        <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+          <Settings className="text-indigo-600" />
+          Prompt Templates
+        </h2>
+        <p className="text-sm text-slate-500 mt-1">
+          The active template is used for every new proposal. The JSON response format is added automatically.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-12 gap-6">
+        <div className="lg:col-span-3 space-y-2">
+          {settings.templates.map(t => (
+            <button
+              key={t.id}
+              onClick={() => setSelectedId(t.id)}
+              className={`w-full text-left px-4 py-3 rounded-xl border transition-colors ${t.id === template.id ? 'bg-indigo-50 border-indigo-200' : 'bg-white border-slate-200 hover:border-indigo-200'}`}
+            >
+              <div className="font-semibold text-slate-800 truncate">{t.name || 'Untitled'}</div>
+              <div className="text-xs text-slate-400">
+                FY{t.fiscalYear} · {t.recommendationCount} recommendations
+                {t.id === settings.activeTemplateId && <span className="text-emerald-600 font-bold"> · Active</span>}
+              </div>
+            </button>
+          ))}
+          <div className="flex gap-3 pt-2 text-sm">
+            <button onClick={() => addTemplate(DEFAULT_TEMPLATE, 'New Template')} className="font-semibold text-indigo-600 hover:text-indigo-800 flex items-center gap-1">
+              <Plus size={14} />
+              New
+            </button>
+            <button onClick={() => addTemplate(template, `${template.name} (copy)`)} className="font-semibold text-slate-600 hover:text-slate-900">
+              Duplicate
+            </button>
+          </div>
+        </div>
+
+        <div className="lg:col-span-9 bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-5">
+          <div className="flex flex-wrap items-center gap-3">
+            <input
+              value={template.name}
+              onChange={(e) => updateTemplate({ name: e.target.value })}
+              className="flex-1 text-lg font-bold text-slate-900 bg-transparent border-b border-transparent hover:border-slate-200 focus:border-indigo-300 outline-none"
+            />
+            {template.id === settings.activeTemplateId ? (
+              <span className="text-xs font-bold text-emerald-700 bg-emerald-50 border border-emerald-100 px-3 py-1 rounded-full">Active</span>
+            ) : (
+              <button
+                onClick={() => onChange({ ...settings, activeTemplateId: template.id })}
+                className="text-sm font-semibold text-indigo-600 hover:text-indigo-800"
+              >
+                Use for Generation
+              </button>
+            )}
+            <button
+              onClick={removeTemplate}
+              disabled={settings.templates.length < 2}
+              title="Delete template"
+              className="text-slate-300 hover:text-red-500 transition-colors disabled:opacity-30 disabled:hover:text-slate-300"
+            >
+              <Trash2 size={16} />
+            </button>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+            <label className="space-y-1">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Fiscal Year</span>
+              <input
+                type="number"
+                value={fiscalYearText}
+                onChange={(e) => setFiscalYearText(e.target.value)}
+                onBlur={() => {
+                  const year = Number(fiscalYearText);
+                  if (Number.isInteger(year) && year >= 2000 && year <= 2100) updateTemplate({ fiscalYear: year });
+                  else setFiscalYearText(String(template.fiscalYear));
+                }}
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Recommendations</span>
+              <input
+                type="number"
+                min={1}
+                max={6}
+                value={template.recommendationCount}
+                onChange={(e) => updateTemplate({ recommendationCount: Math.min(6, Math.max(1, Math.floor(Number(e.target.value)) || 1)) })}
+                className={inputClass}
+              />
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Tone</span>
+              <input value={template.tone} onChange={(e) => updateTemplate({ tone: e.target.value })} className={inputClass} />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+            <label className="space-y-1">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Pinned Programs (one per line)</span>
+              <textarea
+                value={template.pinnedPrograms.join('\n')}
+                onChange={(e) => updateTemplate({ pinnedPrograms: e.target.value.split('\n') })}
+                rows={4}
+                className={`${inputClass} resize-y`}
+              />
+              {unmatchedPins.length > 0 && (
+                <span className="block text-xs text-amber-700">
+                  Not in the catalog, so not enforced: {unmatchedPins.map(pin => `"${pin}"`).join(', ')}. Use a program name, or a program name followed by one of its tiers.
+                </span>
+              )}
+            </label>
+            <label className="space-y-1">
+              <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Excluded Programs (one per line)</span>
+              <textarea
+                value={template.excludedPrograms.join('\n')}
+                onChange={(e) => updateTemplate({ excludedPrograms: e.target.value.split('\n') })}
+                rows={4}
+                className={`${inputClass} resize-y`}
+              />
+            </label>
+          </div>
+
+          <label className="block space-y-1 text-sm">
+            <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Prompt</span>
+            <textarea
+              value={template.body}
+              onChange={(e) => updateTemplate({ body: e.target.value })}
+              rows={16}
+              className={`${inputClass} font-mono text-xs resize-y`}
+            />
+          </label>
+          {unknown.length > 0 && (
+            <div className="text-sm text-amber-700 bg-amber-50 border border-amber-100 rounded-xl px-4 py-2">
+              Unknown variables are sent as written: {unknown.map(name => `{{${name}}}`).join(', ')}
+            </div>
+          )}
+          <div className="flex flex-wrap gap-2">
+            {TEMPLATE_VARIABLES.map(v => (
+              <span key={v.name} title={v.description} className="text-xs font-mono bg-slate-50 border border-slate-200 text-slate-600 px-2 py-1 rounded-lg">
+                {`{{${v.name}}}`}
+              </span>
+            ))}
+          </div>
+
+          <div className="border-t border-slate-100 pt-5 space-y-3">
+            <div className="flex flex-wrap items-center gap-3">
+              <Eye size={16} className="text-slate-400" />
+              <span className="text-sm font-semibold text-slate-700">Preview for</span>
+              {businesses.length > 0 ? (
+                <select
+                  value={previewBusiness.businessName}
+                  onChange={(e) => setPreviewName(e.target.value)}
+                  className="bg-white border border-slate-200 rounded-lg px-2 py-1 text-sm outline-none max-w-xs"
+                >
+                  {businesses.map(b => <option key={b.businessName} value={b.businessName}>{b.businessName}</option>)}
+                </select>
+              ) : (
+                <span className="text-sm text-slate-500">{SAMPLE_BUSINESS.businessName}</span>
+              )}
+            </div>
+            <pre className="bg-slate-900 text-slate-100 text-xs leading-relaxed rounded-xl p-4 max-h-[28rem] overflow-auto whitespace-pre-wrap">
+              {buildProposalPrompt(previewBusiness, previewCatalog, template, previewBudget, memberFor(previewBusiness.businessName))}
+            </pre>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const MemberProfilePanel = ({
+  businessName,
+  member,
+  industries,
+  onChange,
+  onClose
+}: {
+  businessName: string;
+  member: MemberProfile | null;
+  industries: string[];
+  onChange: (member: MemberProfile) => void;
+  onClose: () => void;
+}) => {
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const current = member || EMPTY_MEMBER_PROFILE;
+  const inputClass = 'w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-indigo-300';
+  const labelClass = 'text-xs font-bold text-slate-400 uppercase tracking-widest';
+  const update = (patch: Partial<MemberProfile>) => onChange({ ...current, ...patch, updatedAt: Date.now() });
+
+  const uploadLogo = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      update({ logoDataUrl: await logoDataUrlFromFile(file) });
+      setLogoError(null);
+    } catch (err: any) {
+      setLogoError(err.message || "Could not read the logo.");
+    }
+  };
+
+  const contactFields: { key: 'contactName' | 'contactTitle' | 'contactEmail' | 'contactPhone'; label: string }[] = [
+    { key: 'contactName', label: 'Primary contact' },
+    { key: 'contactTitle', label: 'Title' },
+    { key: 'contactEmail', label: 'Email' },
+    { key: 'contactPhone', label: 'Phone' }
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-5 mb-6 no-print">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <UserRound size={18} className="text-indigo-500" />
+            Member Profile
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            What we know about {businessName} beyond their spend. The next generation uses it, and the logo appears on the proposal.
+          </p>
+        </div>
+        <button onClick={onClose} title="Close" className="text-slate-400 hover:text-slate-700 transition-colors">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <div className="space-y-1">
+            <span className={labelClass}>Logo</span>
+            <div className="flex items-center gap-3">
+              <div className="h-16 w-40 border border-slate-200 rounded-lg flex items-center justify-center bg-slate-50 overflow-hidden">
+                {current.logoDataUrl ? (
+                  <img src={current.logoDataUrl} alt={businessName} className="max-h-14 max-w-[9rem] object-contain" />
+                ) : (
+                  <Building2 size={20} className="text-slate-300" />
+                )}
+              </div>
+              <label className="px-3 py-1.5 rounded-lg text-sm font-semibold text-indigo-600 hover:bg-indigo-50 transition-colors cursor-pointer">
+                Upload
+                <input type="file" accept="image/*" className="hidden" onChange={(e) => { uploadLogo(e.target.files?.[0]); e.target.value = ''; }} />
+              </label>
+              {current.logoDataUrl && (
+                <button onClick={() => update({ logoDataUrl: '' })} className="text-sm font-semibold text-slate-500 hover:text-red-600 transition-colors">
+                  Remove
+                </button>
+              )}
+            </div>
+            {logoError && <p className="text-xs text-red-600">{logoError}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className={labelClass}>Industry</span>
+              <input
+                value={current.industry}
+                onChange={(e) => update({ industry: e.target.value })}
+                list="member-industries"
+                placeholder="Healthcare, hospitality…"
+                className={inputClass}
+              />
+              <datalist id="member-industries">
+                {industries.map(industry => <option key={industry} value={industry} />)}
+              </datalist>
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Size</span>
+              <select value={current.size} onChange={(e) => update({ size: e.target.value })} className={inputClass}>
+                <option value="">Not set</option>
+                {MEMBER_SIZES.map(size => <option key={size} value={size}>{size}</option>)}
+              </select>
+            </label>
+            {contactFields.map(field => (
+              <label key={field.key} className="space-y-1">
+                <span className={labelClass}>{field.label}</span>
+                <input value={current[field.key]} onChange={(e) => update({ [field.key]: e.target.value })} className={inputClass} />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <label className="block space-y-1">
+            <span className={labelClass}>Stated goals</span>
+            <textarea
+              value={current.goals}
+              onChange={(e) => update({ goals: e.target.value })}
+              placeholder="Reach young professionals, be seen as the go-to employer in the region…"
+              className={`${inputClass} h-24 resize-y`}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className={labelClass}>Notes from past meetings</span>
+            <textarea
+              value={current.meetingNotes}
+              onChange={(e) => update({ meetingNotes: e.target.value })}
+              placeholder="Loved the golf outing signage; budget approvals happen in March…"
+              className={`${inputClass} h-28 resize-y`}
+            />
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const OrganizationProfilePanel = ({
+  profile,
+  onChange
+}: {
+  profile: OrganizationProfile;
+  onChange: (profile: OrganizationProfile) => void;
+}) => {
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const inputClass = 'w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-indigo-300';
+  const labelClass = 'text-xs font-bold text-slate-400 uppercase tracking-widest';
+  const update = (patch: Partial<OrganizationProfile>) => onChange({ ...profile, ...patch });
+
+  const uploadLogo = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      update({ logoDataUrl: await logoDataUrlFromFile(file) });
+      setLogoError(null);
+    } catch (err: any) {
+      setLogoError(err.message || "Could not read the logo.");
+    }
+  };
+
+  const textFields: { key: keyof OrganizationProfile; label: string; placeholder?: string }[] = [
+    { key: 'senderName', label: 'Sender name', placeholder: 'Jordan Lee' },
+    { key: 'senderTitle', label: 'Sender title', placeholder: 'Director of Partnerships' },
+    { key: 'senderEmail', label: 'Email', placeholder: 'partnerships@example.org' },
+    { key: 'senderPhone', label: 'Phone', placeholder: '(555) 010-0100' },
+    { key: 'website', label: 'Website', placeholder: 'example.org' }
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Palette size={18} className="text-indigo-500" />
+            Organization & Brand Kit
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            Logo, colors, fonts and sender details used on every proposal, its exports and the style of generated images.
+          </p>
+        </div>
+        <button
+          onClick={() => onChange(DEFAULT_ORGANIZATION_PROFILE)}
+          className="text-xs font-semibold text-slate-500 hover:text-slate-800 transition-colors"
+        >
+          Reset to defaults
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-4">
+          <label className="block space-y-1">
+            <span className={labelClass}>Organization name</span>
+            <input value={profile.name} onChange={(e) => update({ name: e.target.value })} placeholder="Chamber of Commerce" className={inputClass} />
+          </label>
+
+          <div className="space-y-1">
+            <span className={labelClass}>Logo</span>
+            <div className="flex items-center gap-3">
+              <div className="h-16 w-40 border border-slate-200 rounded-lg flex items-center justify-center bg-slate-50 overflow-hidden">
+                {profile.logoDataUrl ? (
+                  <img src={profile.logoDataUrl} alt="Logo" className="max-h-14 max-w-[9rem] object-contain" />
+                ) : (
+                  <ImageIcon size={20} className="text-slate-300" />
+                )}
+              </div>
+              <label className="px-3 py-1.5 rounded-lg text-sm font-semibold text-indigo-600 hover:bg-indigo-50 transition-colors cursor-pointer">
+                Upload
+                <input type="file" accept="image/*" className="hidden" onChange={(e) => { uploadLogo(e.target.files?.[0]); e.target.value = ''; }} />
+              </label>
+              {profile.logoDataUrl && (
+                <button onClick={() => update({ logoDataUrl: '' })} className="text-sm font-semibold text-slate-500 hover:text-red-600 transition-colors">
+                  Remove
+                </button>
+              )}
+            </div>
+            {logoError && <p className="text-xs text-red-600">{logoError}</p>}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {([['primaryColor', 'Primary color'], ['accentColor', 'Accent color']] as const).map(([key, label]) => (
+              <label key={key} className="space-y-1">
+                <span className={labelClass}>{label}</span>
+                <div className="flex items-center gap-2">
+                  <input type="color" value={profile[key]} onChange={(e) => update({ [key]: e.target.value })} className="h-9 w-12 rounded border border-slate-200 bg-white cursor-pointer" />
+                  <span className="text-sm font-mono text-slate-500">{profile[key]}</span>
+                </div>
+              </label>
+            ))}
+            {([['headingFont', 'Heading font'], ['bodyFont', 'Body font']] as const).map(([key, label]) => (
+              <label key={key} className="space-y-1">
+                <span className={labelClass}>{label}</span>
+                <select value={profile[key]} onChange={(e) => update({ [key]: e.target.value })} className={inputClass}>
+                  {BRAND_FONTS.map(f => <option key={f.name} value={f.name}>{f.name}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <span className={labelClass}>Layout</span>
+            <div className="grid grid-cols-3 gap-2">
+              {(Object.keys(PROPOSAL_LAYOUTS) as ProposalLayout[]).map(layout => (
+                <button
+                  key={layout}
+                  onClick={() => update({ layout })}
+                  className={`text-left p-3 rounded-xl border transition-colors ${profile.layout === layout ? 'border-indigo-400 bg-indigo-50' : 'border-slate-200 hover:border-slate-300'}`}
+                >
+                  <div className="text-sm font-bold text-slate-900">{PROPOSAL_LAYOUTS[layout].label}</div>
+                  <div className="text-xs text-slate-500 mt-0.5">{PROPOSAL_LAYOUTS[layout].description}</div>
+                </button>
+              ))}
+            </div>
+            <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+              <input type="checkbox" checked={profile.coverPage} onChange={(e) => update({ coverPage: e.target.checked })} />
+              Start with a cover page
+            </label>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-3">
+            <label className="space-y-1">
+              <span className={labelClass}>Proposal title</span>
+              <input value={profile.proposalTitle} onChange={(e) => update({ proposalTitle: e.target.value })} className={inputClass} />
+            </label>
+            <label className="space-y-1">
+              <span className={labelClass}>Fiscal year label</span>
+              <input value={profile.fiscalYearLabel} onChange={(e) => update({ fiscalYearLabel: e.target.value })} placeholder="{{fiscalYear}} Fiscal Planning Cycle" className={inputClass} />
+            </label>
+            <p className="col-span-2 text-xs text-slate-400">{'{{fiscalYear}}'} in either field becomes the year of each proposal's template.</p>
+            {textFields.map(field => (
+              <label key={field.key} className="space-y-1">
+                <span className={labelClass}>{field.label}</span>
+                <input value={profile[field.key] as string} onChange={(e) => update({ [field.key]: e.target.value })} placeholder={field.placeholder} className={inputClass} />
+              </label>
+            ))}
+          </div>
+          <label className="block space-y-1">
+            <span className={labelClass}>Legal footer</span>
+            <textarea
+              value={profile.legalFooter}
+              onChange={(e) => update({ legalFooter: e.target.value })}
+              placeholder="Registered non-profit, tax ID… Sponsorship benefits subject to the terms of the signed agreement."
+              className={`${inputClass} h-20 resize-y`}
+            />
+          </label>
+          <label className="block space-y-1">
+            <span className={labelClass}>Image style</span>
+            <textarea
+              value={profile.imageStyle}
+              onChange={(e) => update({ imageStyle: e.target.value })}
+              className={`${inputClass} h-16 resize-y`}
+            />
+            <span className="text-xs text-slate-400">Added to every image prompt along with the brand colors.</span>
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const BudgetRulesPanel = ({
+  rules,
+  businesses,
+  onChange
+}: {
+  rules: BudgetRules;
+  businesses: BusinessSpend[];
+  onChange: (rules: BudgetRules) => void;
+}) => {
+  const inputClass = 'w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm outline-none focus:border-indigo-300';
+  const numberValue = (value: string) => (Number.isFinite(Number(value)) ? Number(value) : 0);
+  const samples = (businesses.length ? businesses : [SAMPLE_BUSINESS])
+    .slice()
+    .sort((a, b) => b.totalSpend - a.totalSpend)
+    .filter((_, i, all) => all.length <= 6 || i % Math.ceil(all.length / 6) === 0)
+    .slice(0, 6);
+
+  const fields: { key: keyof BudgetRules; label: string; suffix?: string }[] = [
+    { key: 'breadthBonusPct', label: 'Bonus per extra product', suffix: '%' },
+    { key: 'maxBreadthBonusPct', label: 'Max product bonus', suffix: '%' },
+    { key: 'maxIncrease', label: 'Max increase', suffix: '$' },
+    { key: 'maxMultiple', label: 'Max multiple of prior year', suffix: '×' },
+    { key: 'minimumBudget', label: 'Minimum budget', suffix: '$' },
+    { key: 'minInvestment', label: 'Minimum per recommendation', suffix: '$' },
+    { key: 'roundTo', label: 'Round down to', suffix: '$' }
+  ];
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Scale size={18} className="text-indigo-500" />
+            Budget Sizing
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            Each member gets a target budget from their prior-year spend and product mix. Suggested investments must fit inside it.
+          </p>
+        </div>
+        <label className="flex items-center gap-2 text-sm font-semibold text-slate-700">
+          <input type="checkbox" checked={rules.enabled} onChange={(e) => onChange({ ...rules, enabled: e.target.checked })} />
+          Enforce budgets
+        </label>
+      </div>
+
+      <div className={`grid grid-cols-1 lg:grid-cols-2 gap-6 ${rules.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+        <div className="space-y-4">
+          <div>
+            <div className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Growth Bands</div>
+            <div className="space-y-2">
+              {rules.bands.map((band, idx) => (
+                <div key={idx} className="flex items-center gap-2 text-sm">
+                  <span className="text-slate-500 w-20">Spend ≥ $</span>
+                  <input
+                    type="number"
+                    value={band.minSpend}
+                    onChange={(e) => onChange({ ...rules, bands: rules.bands.map((b, i) => (i === idx ? { ...b, minSpend: numberValue(e.target.value) } : b)) })}
+                    className={`${inputClass} w-32`}
+                  />
+                  <span className="text-slate-500">grows</span>
+                  <input
+                    type="number"
+                    value={band.growthPct}
+                    onChange={(e) => onChange({ ...rules, bands: rules.bands.map((b, i) => (i === idx ? { ...b, growthPct: numberValue(e.target.value) } : b)) })}
+                    className={`${inputClass} w-20`}
+                  />
+                  <span className="text-slate-500">%</span>
+                  <button
+                    onClick={() => onChange({ ...rules, bands: rules.bands.filter((_, i) => i !== idx) })}
+                    disabled={rules.bands.length < 2}
+                    title="Remove band"
+                    className="text-slate-300 hover:text-red-500 transition-colors disabled:opacity-30"
+                  >
+                    <X size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <button
+              onClick={() => onChange({ ...rules, bands: [...rules.bands, { minSpend: (rules.bands[rules.bands.length - 1]?.minSpend || 0) * 2 || 1000, growthPct: 5 }] })}
+              className="mt-2 text-xs font-semibold text-indigo-600 hover:text-indigo-800 flex items-center gap-1"
+            >
+              <Plus size={12} />
+              Add Band
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            {fields.map(field => (
+              <label key={field.key} className="space-y-1 text-sm">
+                <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">
+                  {field.label} ({field.suffix})
+                </span>
+                <input
+                  type="number"
+                  value={rules[field.key] as number}
+                  onChange={(e) => onChange({ ...rules, [field.key]: numberValue(e.target.value) })}
+                  className={inputClass}
+                />
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <div className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-2">Sizing Preview</div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-[10px] font-bold text-slate-400 uppercase tracking-widest text-left">
+                <th className="py-2">Member</th>
+                <th className="py-2 text-right">Prior Year</th>
+                <th className="py-2 text-right">Growth</th>
+                <th className="py-2 text-right">Target</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {samples.map(biz => {
+                const plan = computeBudget(biz, rules);
+                return (
+                  <tr key={biz.businessName}>
+                    <td className="py-2 text-slate-700 truncate max-w-[12rem]">{biz.businessName}</td>
+                    <td className="py-2 text-right text-slate-500">{formatInvestment(plan.previousTotal)}</td>
+                    <td className="py-2 text-right text-slate-500">{plan.growthPct}%</td>
+                    <td className="py-2 text-right font-bold text-slate-900">{formatInvestment(plan.target)}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Bars scaled to the member's best year; a zero year keeps a stub so the gap is visible
+const SpendSparkline = ({ trend }: { trend: SpendTrend }) => {
+  const max = Math.max(...trend.years.map(y => y.totalSpend), 1);
+  return (
+    <div className="flex items-end gap-1 h-8">
+      {trend.years.map(y => (
+        <div
+          key={y.year}
+          title={`${y.year}: ${formatCurrency(y.totalSpend)}`}
+          className={`w-3 rounded-sm ${y.totalSpend > 0 ? 'bg-indigo-300' : 'bg-slate-200'}`}
+          style={{ height: `${Math.max(8, (y.totalSpend / max) * 100)}%` }}
+        />
+      ))}
+    </div>
+  );
+};
+
+const SpendTrendSummary = ({ business }: { business: BusinessSpend }) => {
+  const trend = spendTrend(business);
+  if (!trend) return null;
+  const label = trendLabel(trend);
+  return (
+    <div className="flex items-end justify-between gap-3 mt-3">
+      <div className="text-xs space-y-0.5">
+        <div className={`font-bold ${label.up ? 'text-emerald-600' : 'text-red-600'}`}>{label.text}</div>
+        {trend.annualGrowthPct !== null && trend.years.length > 2 && (
+          <div className="text-slate-400">{formatChange(trend.annualGrowthPct)} / yr since {trend.years[0].year}</div>
+        )}
+        {trend.lapsed.length > 0 && (
+          <div className="text-amber-600" title={trend.lapsed.join(', ')}>
+            {trend.lapsed.length} lapsed program{trend.lapsed.length === 1 ? '' : 's'}
+          </div>
+        )}
+      </div>
+      <SpendSparkline trend={trend} />
+    </div>
+  );
+};
+
+const BusinessAliasesPanel = ({
+  aliases,
+  onChange
+}: {
+  aliases: BusinessAliases;
+  onChange: (aliases: BusinessAliases) => void;
+}) => {
+  const byCanonical = new Map<string, string[]>();
+  Object.entries(aliases.aliases).forEach(([alias, canonical]) => {
+    byCanonical.set(canonical, [...(byCanonical.get(canonical) || []), alias]);
+  });
+  const canonicalNames = Array.from(byCanonical.keys()).sort((a, b) => a.localeCompare(b));
+
+  const removeAlias = (alias: string) => {
+    const { [alias]: _removed, ...rest } = aliases.aliases;
+    onChange({ ...aliases, aliases: rest });
+  };
+
+  return (
+    <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 space-y-5">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+            <Merge size={18} className="text-indigo-500" />
+            Business Aliases
+          </h3>
+          <p className="text-sm text-slate-500 mt-1">
+            Spellings merged during import. Future imports map them to the same member automatically.
+          </p>
+        </div>
+        {aliases.rejected.length > 0 && (
+          <button
+            onClick={() => onChange({ ...aliases, rejected: [] })}
+            className="text-xs font-semibold text-slate-500 hover:text-slate-800 transition-colors"
+          >
+            Forget {aliases.rejected.length} rejected pair{aliases.rejected.length === 1 ? '' : 's'}
+          </button>
+        )}
+      </div>
+
+      {canonicalNames.length === 0 ? (
+        <p className="text-sm text-slate-400">No merges yet. Possible duplicates are offered for review when spend is imported.</p>
+      ) : (
+        <div className="divide-y divide-slate-100">
+          {canonicalNames.map(canonical => (
+            <div key={canonical} className="py-3 flex flex-wrap items-center gap-2">
+              <span className="font-semibold text-sm text-slate-800 mr-2">{canonical}</span>
+              {byCanonical.get(canonical)!.sort().map(alias => (
+                <span key={alias} className="flex items-center gap-1 text-xs bg-slate-100 text-slate-600 rounded-full pl-2.5 pr-1.5 py-1">
+                  {alias}
+                  <button
+                    onClick={() => removeAlias(alias)}
+                    title="Remove alias"
+                    className="text-slate-400 hover:text-red-500 transition-colors"
+                  >
+                    <X size={12} />
+                  </button>
+                </span>
+              ))}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DiffText = ({ parts, side }: { parts: DiffPart[]; side: 'before' | 'after' }) => (
+  <p className="text-sm text-slate-600 leading-relaxed whitespace-pre-wrap">
+    {parts.map((part, idx) => {
+      if (part.kind === 'same') return <span key={idx}>{part.text}</span>;
+      if (side === 'before' && part.kind === 'removed') {
+        return <span key={idx} className="bg-red-100 text-red-800 line-through decoration-red-300">{part.text}</span>;
+      }
+      if (side === 'after' && part.kind === 'added') {
+        return <span key={idx} className="bg-emerald-100 text-emerald-800">{part.text}</span>;
+      }
+      return null;
+    })}
+  </p>
+);
+
+const ProposalDiff = ({
+  versions,
+  beforeId,
+  afterId,
+  onSelect,
+  onClose
+}: {
+  versions: StoredProposal[];
+  beforeId: string;
+  afterId: string;
+  onSelect: (side: 'before' | 'after', id: string) => void;
+  onClose: () => void;
+}) => {
+  const before = versions.find(v => v.id === beforeId);
+  const after = versions.find(v => v.id === afterId);
+
+  // Flatten both versions into comparable text blocks; reviews pair up by name, recommendations by priority
+  const sections = useMemo(() => {
+    if (!before || !after) return [];
+    const a = displayedProposal(before);
+    const b = displayedProposal(after);
+    const blocks: { title: string; before: string; after: string }[] = [
+      { title: 'Executive Summary', before: a.summary || '', after: b.summary || '' },
+      { title: 'Strategic Relationship Analysis', before: a.analysis || '', after: b.analysis || '' }
+    ];
+
+    const reviewNames = Array.from(new Set([...a.sponsorshipReviews, ...b.sponsorshipReviews].map(r => r.name)));
+    reviewNames.forEach(name => {
+      const reviewText = (p: ProposalData) => {
+        const review = p.sponsorshipReviews.find(r => r.name === name);
+        return review ? `${formatCurrency(review.amount)} · ${review.review}` : '';
+      };
+      blocks.push({ title: `${proposalYear(b) - 1} Retrospective · ${name}`, before: reviewText(a), after: reviewText(b) });
+    });
+
+    const recCount = Math.max(a.recommendations.length, b.recommendations.length);
+    for (let i = 0; i < recCount; i++) {
+      const recText = (p: ProposalData) => {
+        const rec = p.recommendations[i];
+        return rec ? `${rec.program}${rec.tier ? ` · ${rec.tier}` : ''} (${rec.suggestedInvestment})\n${rec.reasoning}` : '';
+      };
+      blocks.push({ title: `${proposalYear(b)} Recommendation · Priority ${i + 1}`, before: recText(a), after: recText(b) });
+    }
+
+    return blocks.map(block => ({ ...block, parts: diffWords(block.before, block.after) }));
+  }, [before, after]);
+
+  const versionSelect = (side: 'before' | 'after', value: string) => (
+    <select
+      value={value}
+      onChange={(e) => onSelect(side, e.target.value)}
+      className="w-full bg-white border border-slate-200 rounded-lg px-3 py-2 text-sm font-semibold text-slate-700 outline-none focus:border-indigo-300"
+    >
+      {versions.map((v, idx) => (
+        <option key={v.id} value={v.id}>Version {idx + 1} · {formatTimestamp(v.createdAt)}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="bg-white proposal-shadow rounded-3xl w-full p-8 md:p-12 text-slate-800 border border-slate-200 no-print">
+      <div className="flex items-center justify-between mb-8">
+        <h2 className="text-sm font-black text-indigo-500 uppercase tracking-[0.2em] flex items-center gap-2">
+          <GitCompare size={16} />
+          Compare Versions
+        </h2>
+        <button
+          onClick={onClose}
+          className="flex items-center gap-2 text-sm font-medium text-slate-500 hover:text-slate-800 transition-colors"
+        >
+          <X size={16} />
+          Close
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-6 mb-8 sticky top-0 bg-white py-2">
+        {versionSelect('before', beforeId)}
+        {versionSelect('after', afterId)}
+      </div>
+
+      <div className="space-y-8">
+        {sections.map(section => {
+          const unchanged = section.parts.every(part => part.kind === 'same');
+          return (
+            <section key={section.title}>
+              <h3 className="text-xs font-bold text-slate-800 uppercase tracking-widest mb-3 flex items-center gap-3">
+                {section.title}
+                {unchanged && <span className="text-[9px] font-black text-slate-300">No changes</span>}
+              </h3>
+              <div className="grid grid-cols-2 gap-6">
+                <div className="bg-slate-50 rounded-2xl border border-slate-100 p-4">
+                  {section.before ? <DiffText parts={section.parts} side="before" /> : <p className="text-sm text-slate-300 italic">Not in this version</p>}
+                </div>
+                <div className="bg-slate-50 rounded-2xl border border-slate-100 p-4">
+                  {section.after ? <DiffText parts={section.parts} side="after" /> : <p className="text-sm text-slate-300 italic">Not in this version</p>}
+                </div>
+              </div>
+            </section>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+const EditableText = ({
+  value,
+  onChange,
+  editing,
+  multiline = false,
+  placeholder,
+  className = ''
+}: {
+  value: string;
+  onChange: (value: string) => void;
+  editing: boolean;
+  multiline?: boolean;
+  placeholder?: string;
+  className?: string;
+}) => {
+  if (!editing) return <>{value}</>;
+  const fieldClass = `w-full bg-indigo-50/40 border border-indigo-100 rounded-lg px-2 py-1 outline-none focus:border-indigo-300 focus:bg-white transition-colors ${className}`;
+  return multiline ? (
+    <textarea
+      value={value}
+      placeholder={placeholder}
+      onChange={(e) => onChange(e.target.value)}
+      rows={Math.max(3, Math.ceil(value.length / 60))}
+      className={`${fieldClass} resize-y`}
+    />
+  ) : (
+    <input type="text" value={value} placeholder={placeholder} onChange={(e) => onChange(e.target.value)} className={fieldClass} />
+  );
+};
+
+const ItemControls = ({
+  index,
+  count,
+  onMove,
+  onRemove
+}: {
+  index: number;
+  count: number;
+  onMove: (from: number, to: number) => void;
+  onRemove: (index: number) => void;
+}) => (
+  <div className="absolute top-2 left-2 z-10 flex gap-1 no-print">
+    {[
+      { icon: <ChevronUp size={14} />, label: 'Move earlier', disabled: index === 0, onClick: () => onMove(index, index - 1) },
+      { icon: <ChevronDown size={14} />, label: 'Move later', disabled: index === count - 1, onClick: () => onMove(index, index + 1) },
+      { icon: <Trash2 size={14} />, label: 'Remove', disabled: false, onClick: () => onRemove(index) }
+    ].map(control => (
+      <button
+        key={control.label}
+        title={control.label}
+        disabled={control.disabled}
+        onClick={control.onClick}
+        className="bg-white/90 backdrop-blur-md text-slate-600 hover:text-indigo-600 p-1.5 rounded-lg shadow-sm disabled:opacity-30 disabled:cursor-not-allowed"
+      >
+        {control.icon}
+      </button>
+    ))}
+  </div>
+);
+
+const SectionRegenerator = ({
+  onRegenerate,
+  className = ''
+}: {
+  onRegenerate: (instruction: string) => Promise<void>;
+  className?: string;
+}) => {
+  const [open, setOpen] = useState(false);
+  const [instruction, setInstruction] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = async () => {
+    setBusy(true);
+    try {
+      await onRegenerate(instruction);
+      setOpen(false);
+      setInstruction('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <span className={`relative inline-flex no-print normal-case tracking-normal font-normal ${className}`}>
+      <button
+        title="Regenerate this section"
+        onClick={() => setOpen(prev => !prev)}
+        className="p-1.5 rounded-lg text-slate-400 hover:text-indigo-600 hover:bg-indigo-50 transition-colors"
+      >
+        <Wand2 size={14} className={busy ? 'animate-pulse text-indigo-500' : ''} />
+      </button>
+      {open && (
+        <div className="absolute right-0 top-full mt-2 w-72 z-30 bg-white rounded-2xl shadow-2xl border border-slate-200 p-4 space-y-3 text-left">
+          <div className="text-xs font-bold text-slate-800">Regenerate this section</div>
+          <textarea
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            placeholder='Optional guidance, e.g. "more formal" or "focus on talent recruitment"'
+            rows={3}
+            disabled={busy}
+            className="w-full text-sm text-slate-700 border border-slate-200 rounded-lg p-2 outline-none focus:border-indigo-300 resize-none"
+          />
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setOpen(false)}
+              disabled={busy}
+              className="px-3 py-1.5 text-xs font-medium text-slate-500 hover:text-slate-800 transition-colors"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={run}
+              disabled={busy}
+              className="bg-indigo-600 text-white px-3 py-1.5 rounded-lg text-xs font-semibold hover:bg-indigo-700 transition-colors flex items-center gap-1.5 disabled:opacity-60"
+            >
+              {busy ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+              {busy ? 'Regenerating...' : 'Regenerate'}
+            </button>
+          </div>
+        </div>
+      )}
+    </span>
+  );
+};
+
+// The pieces of the proposal that change between layout templates; colors come from the brand-* classes
+const LAYOUT_CLASSES: Record<ProposalLayout, {
+  cover: string;
+  header: string;
+  headerFlush: string;
+  eyebrow: string;
+  title: string;
+  subtitle: string;
+  heading: string;
+  icons: boolean;
+  reviewCard: string;
+  recCard: string;
+  imageCorners: string;
+}> = {
+  classic: {
+    cover: 'brand-band text-white',
+    header: 'border-b border-slate-100 pb-10 mb-10',
+    headerFlush: '',
+    eyebrow: 'brand-primary font-bold tracking-tighter text-xl uppercase',
+    title: 'text-slate-900',
+    subtitle: 'text-slate-400 font-medium',
+    heading: 'text-sm font-black brand-accent uppercase tracking-[0.2em]',
+    icons: true,
+    reviewCard: 'bg-white border border-slate-100 rounded-2xl shadow-sm hover:shadow-md transition-shadow',
+    recCard: 'bg-slate-50 rounded-3xl border border-slate-100 hover:bg-white hover:border-slate-200 transition-all',
+    imageCorners: 'rounded-t-2xl'
+  },
+  bold: {
+    cover: 'brand-band text-white',
+    header: 'brand-band text-white -mx-8 md:-mx-16 px-8 md:px-16 pt-12 pb-10 mb-12',
+    headerFlush: '-mt-8 md:-mt-16 md:rounded-t-3xl',
+    eyebrow: 'text-white/80 font-black tracking-[0.2em] text-sm uppercase',
+    title: 'text-white',
+    subtitle: 'text-white/70 font-medium',
+    heading: 'text-base font-black brand-primary uppercase tracking-[0.15em] border-l-4 brand-border pl-3',
+    icons: true,
+    reviewCard: 'bg-white border-2 brand-border-soft rounded-2xl',
+    recCard: 'bg-white rounded-3xl border-2 brand-border-soft',
+    imageCorners: 'rounded-t-2xl'
+  },
+  minimal: {
+    cover: 'bg-white text-slate-900 border-b-2 border-slate-900',
+    header: 'border-b-2 border-slate-900 pb-8 mb-10',
+    headerFlush: '',
+    eyebrow: 'text-slate-500 font-medium tracking-widest text-sm uppercase',
+    title: 'text-slate-900',
+    subtitle: 'text-slate-400',
+    heading: 'text-lg font-semibold text-slate-900 border-b border-slate-200 pb-2',
+    icons: false,
+    reviewCard: 'bg-white border border-slate-200',
+    recCard: 'bg-white border border-slate-200',
+    imageCorners: ''
+  }
+};
+
+const ProposalDocument = ({
+  business,
+  proposal,
+  profile,
+  member,
+  editing,
+  onChange,
+  onRegenerate,
+  onPickImage,
+  imageState,
+  onRetryImage
+}: {
+  business: BusinessSpend;
+  proposal: ProposalData;
+  profile: OrganizationProfile;
+  member?: MemberProfile | null;
+  editing: boolean;
+  onChange: (updater: (prev: ProposalData) => ProposalData) => void;
+  onRegenerate?: (section: ProposalSection, instruction: string) => Promise<void>;
+  onPickImage?: (query: string, apply: (url: string) => void) => void;
+  imageState?: (slot: ImageSlot) => ImageState | undefined;
+  onRetryImage?: (slot: ImageSlot) => void;
+}) => {
+  const regenerator = (section: ProposalSection, className?: string) =>
+    onRegenerate && !editing ? (
+      <SectionRegenerator onRegenerate={(instruction) => onRegenerate(section, instruction)} className={className} />
+    ) : null;
+
+  type Review = ProposalData['sponsorshipReviews'][number];
+  type Recommendation = ProposalData['recommendations'][number];
+
+  const setField = <K extends keyof ProposalData>(key: K, value: ProposalData[K]) =>
+    onChange(prev => ({ ...prev, [key]: value }));
+
+  const updateReview = (idx: number, patch: Partial<Review>) =>
+    onChange(prev => ({ ...prev, sponsorshipReviews: prev.sponsorshipReviews.map((r, i) => (i === idx ? { ...r, ...patch } : r)) }));
+
+  const updateRecommendation = (idx: number, patch: Partial<Recommendation>) =>
+    onChange(prev => ({ ...prev, recommendations: prev.recommendations.map((r, i) => (i === idx ? { ...r, ...patch } : r)) }));
+
+  const imageSwapper = (query: string, apply: (url: string) => void, className: string) =>
+    onPickImage ? (
+      <button
+        onClick={() => onPickImage(query, apply)}
+        title="Choose from the image library"
+        className={`absolute flex items-center gap-1 text-[10px] font-bold text-white bg-slate-900/60 backdrop-blur-md px-2 py-1 rounded opacity-0 group-hover:opacity-100 focus:opacity-100 transition-opacity no-print ${className}`}
+      >
+        <ImagePlus size={12} />
+        Library
+      </button>
+    ) : null;
+
+  // An empty box says whether its picture is still coming, failed, or was never made
+  const imagePlaceholder = (slot: ImageSlot, iconSize: number) => {
+    const state = imageState?.(slot);
+    if (state === 'loading') {
+      return (
+        <div className="w-full h-full flex flex-col items-center justify-center gap-2 text-slate-400 animate-pulse">
+          <Loader2 size={iconSize * 0.75} className="animate-spin" />
+          <span className="text-[10px] font-bold uppercase tracking-widest">Generating image</span>
+        </div>
+      );
+    }
+    return (
+      <div className={`w-full h-full flex flex-col items-center justify-center gap-2 ${state === 'failed' ? 'bg-red-50 text-red-400' : 'text-slate-300'}`}>
+        {state === 'failed' ? <AlertCircle size={iconSize * 0.75} /> : <ImageIcon size={iconSize} />}
+        {state === 'failed' && <span className="text-[10px] font-bold uppercase tracking-widest">Image failed</span>}
+        {onRetryImage && !editing && (
+          <button
+            onClick={() => onRetryImage(slot)}
+            className="flex items-center gap-1 text-xs font-semibold text-indigo-600 bg-white border border-slate-200 px-2.5 py-1 rounded-lg hover:border-indigo-300 transition-colors no-print"
+          >
+            <RefreshCw size={12} />
+            {state === 'failed' ? 'Retry' : 'Generate Image'}
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  // Recomputed from the recommendations so hand edits to amounts show up immediately
+  const proposed = proposedTotal(proposal.recommendations);
+  const overBudget = !!proposal.budget && proposed !== null && proposed > proposal.budget.target;
+  const year = spendYear(business);
+  const trend = spendTrend(business);
+  const look = LAYOUT_CLASSES[profile.layout];
+  const contact = senderContact(profile);
+  const attention = member ? memberContactLine(member) : '';
+
+  // Logos can be dark on transparent, so on a color band they sit on a white chip
+  const logo = (onBand: boolean, className: string) =>
+    profile.logoDataUrl ? (
+      <div className={`${onBand ? 'bg-white p-3 rounded-xl' : ''} inline-flex ${className}`}>
+        <img src={profile.logoDataUrl} alt={profile.name || 'Logo'} className="max-h-12 max-w-[200px] object-contain" />
+      </div>
+    ) : null;
+
+  return (
+    <div
+      className="brand-doc bg-white proposal-shadow rounded-none md:rounded-3xl min-h-[11in] w-full p-8 md:p-16 text-slate-800 border border-slate-200 print:border-0"
+      style={brandVariables(profile) as React.CSSProperties}
+    >
+      {profile.coverPage && (
+        <div className={`proposal-cover flex flex-col justify-between gap-16 min-h-[9in] -mx-8 md:-mx-16 -mt-8 md:-mt-16 px-8 md:px-16 py-16 mb-16 md:rounded-t-3xl ${look.cover}`}>
+          <div className="flex items-center gap-4">
+            {logo(look.cover.includes('brand-band'), '')}
+            {profile.name && <span className="text-lg font-bold">{profile.name}</span>}
+          </div>
+          <div>
+            <div className="text-sm font-black uppercase tracking-[0.2em] opacity-80 mb-6">{profile.proposalTitle}</div>
+            {member?.logoDataUrl && (
+              <div className="bg-white p-4 rounded-2xl inline-flex mb-6 shadow-sm">
+                <img src={member.logoDataUrl} alt={business.businessName} className="max-h-20 max-w-[260px] object-contain" />
+              </div>
+            )}
+            <h1 className="text-5xl md:text-6xl font-black leading-tight mb-4">{business.businessName}</h1>
+            {profile.fiscalYearLabel && <p className="text-lg opacity-70">Prepared for {profile.fiscalYearLabel}</p>}
+            {attention && <p className="text-lg opacity-70">Attention: {attention}</p>}
+          </div>
+          <div className="flex flex-wrap justify-between items-end gap-6 text-sm">
+            {hasSender(profile) ? (
+              <div>
+                <div className="text-[10px] font-black uppercase tracking-[0.2em] opacity-60 mb-2">Prepared by</div>
+                {profile.senderName && <div className="font-bold">{profile.senderName}</div>}
+                {profile.senderTitle && <div className="opacity-80">{profile.senderTitle}</div>}
+                {contact.map(line => <div key={line} className="opacity-80">{line}</div>)}
+              </div>
+            ) : <div />}
+            <div className="opacity-70">{new Date().toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })}</div>
+          </div>
+        </div>
+      )}
+
+      <div className={`flex flex-col md:flex-row print:flex-row justify-between items-start gap-6 ${look.header} ${profile.coverPage ? '' : look.headerFlush}`}>
+        <div>
+          {!profile.coverPage && logo(profile.layout === 'bold', 'mb-6')}
+          <div className={`${look.eyebrow} mb-4`}>{profile.proposalTitle}</div>
+          <div className="flex items-center gap-4 mb-2">
+            {!profile.coverPage && member?.logoDataUrl && (
+              <div className="bg-white p-2 rounded-xl border border-slate-100 inline-flex shrink-0">
+                <img src={member.logoDataUrl} alt={business.businessName} className="max-h-12 max-w-[140px] object-contain" />
+              </div>
+            )}
+            <h1 className={`text-4xl md:text-5xl font-black leading-tight ${look.title}`}>
+              {business.businessName}
+            </h1>
+          </div>
+          {profile.fiscalYearLabel && <p className={look.subtitle}>Prepared for {profile.fiscalYearLabel}</p>}
+          {attention && <p className={look.subtitle}>Attention: {attention}</p>}
+        </div>
+        <div className="flex flex-wrap gap-4">
+          <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100 min-w-[200px]">
+            <div className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{year} Total Value</div>
+            <div className="text-3xl font-black brand-primary">{formatCurrency(business.totalSpend)}</div>
+          </div>
+          {proposed !== null && (
+            <div className={`p-6 rounded-2xl border min-w-[200px] ${overBudget ? 'bg-red-50 border-red-100' : 'brand-tint brand-border-soft'}`}>
+              <div className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">{proposalYear(proposal)} Proposed Total</div>
+              <div className={`text-3xl font-black ${overBudget ? 'text-red-600' : 'text-slate-900'}`}>{formatCurrency(proposed)}</div>
+              <div className="text-xs text-slate-500 mt-1">
+                {business.totalSpend > 0 && `${proposed >= business.totalSpend ? '+' : ''}${Math.round(((proposed - business.totalSpend) / business.totalSpend) * 100)}% vs ${year}`}
+                {proposal.budget && ` · Budget ${formatInvestment(proposal.budget.target)}`}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-12 mb-12">
+        <div className="md:col-span-2 space-y-10">
+          <section>
+            <h2 className={`${look.heading} mb-4 flex items-center gap-2`}>
+              {look.icons && <CheckCircle2 size={16} />}
+              Executive Summary
+              {regenerator({ kind: 'summary' }, 'ml-auto')}
+            </h2>
+            <div className="text-lg text-slate-600 leading-relaxed font-light">
+              <EditableText value={proposal.summary} onChange={v => setField('summary', v)} editing={editing} multiline />
+            </div>
+          </section>
+          <section>
+            <h2 className={`${look.heading} mb-4 flex items-center gap-2`}>
+              {look.icons && <PieChart size={16} />}
+              Strategic Relationship Analysis
+              {regenerator({ kind: 'analysis' }, 'ml-auto')}
+            </h2>
+            <div className="text-slate-600 leading-relaxed">
+              <EditableText value={proposal.analysis} onChange={v => setField('analysis', v)} editing={editing} multiline />
+            </div>
+          </section>
+        </div>
+        <aside className="space-y-8">
+          <div className={`p-6 border ${profile.layout === 'minimal' ? 'border-slate-200' : 'brand-tint brand-border-soft rounded-3xl'}`}>
+            <h3 className="brand-primary font-bold mb-4 text-sm">{year} Spend Allocation</h3>
+            <div className="space-y-3">
+              {Object.entries(business.products).map(([name, val]: [string, number]) => (
+                <div key={name} className="flex justify-between items-center group">
+                  <span className="text-xs text-slate-500 font-medium">{name}</span>
+                  <span className="text-xs font-bold text-slate-700">{formatCurrency(val)}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+          {trend && (
+            <div className={`bg-slate-50 p-6 border border-slate-100 ${profile.layout === 'minimal' ? '' : 'rounded-3xl'}`}>
+              <div className="flex items-start justify-between gap-3 mb-4">
+                <div>
+                  <h3 className="text-slate-900 font-bold text-sm">Spend History</h3>
+                  <div className={`text-xs font-bold mt-1 ${trendLabel(trend).up ? 'text-emerald-600' : 'text-red-600'}`}>{trendLabel(trend).text}</div>
+                </div>
+                <SpendSparkline trend={trend} />
+              </div>
+              <div className="space-y-2">
+                {trend.years.map(y => (
+                  <div key={y.year} className="flex justify-between items-center">
+                    <span className="text-xs text-slate-500 font-medium">{y.year}</span>
+                    <span className="text-xs font-bold text-slate-700">{formatCurrency(y.totalSpend)}</span>
+                  </div>
+                ))}
+              </div>
+              {trend.annualGrowthPct !== null && trend.years.length > 2 && (
+                <div className="text-xs text-slate-500 mt-3">{formatChange(trend.annualGrowthPct)} compound annual growth</div>
+              )}
+              {[
+                { label: 'Retained', items: trend.retained, className: 'text-slate-600' },
+                { label: 'Lapsed', items: trend.lapsed, className: 'text-amber-700' },
+                { label: 'New', items: trend.added, className: 'text-emerald-700' }
+              ].filter(group => group.items.length > 0).map(group => (
+                <div key={group.label} className="mt-3">
+                  <div className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">{group.label}</div>
+                  <div className={`text-xs ${group.className}`}>{group.items.join(', ')}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </aside>
+      </div>
+
+      {/* Portfolio Retrospective Boxes */}
+      <section className="mt-12 mb-20">
+        <h2 className={`${look.heading} mb-8 flex items-center gap-2`}>
+          {look.icons && <History size={16} />}
+          {year} Portfolio Retrospective
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 print:grid-cols-3 gap-6">
+          {proposal.sponsorshipReviews.map((item, idx) => (
+            <div key={idx} className={`proposal-card group relative ${look.reviewCard}`}>
+              {editing && (
+                <ItemControls
+                  index={idx}
+                  count={proposal.sponsorshipReviews.length}
+                  onMove={(from, to) => setField('sponsorshipReviews', moveItem(proposal.sponsorshipReviews, from, to))}
+                  onRemove={(i) => setField('sponsorshipReviews', proposal.sponsorshipReviews.filter((_, j) => j !== i))}
+                />
+              )}
+              <div className={`h-32 bg-slate-100 relative overflow-hidden ${look.imageCorners}`}>
+                {item.imageUrl ? (
+                  <img src={item.imageUrl} alt={item.name} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />
+                ) : imagePlaceholder({ kind: 'review', index: idx }, 32)}
+                {imageSwapper(item.name, url => updateReview(idx, { imageUrl: url }), 'bottom-2 right-2')}
+                <div className="absolute top-2 right-2">
+                  {editing ? (
+                    <input
+                      type="number"
+                      min={0}
+                      value={item.amount}
+                      onChange={(e) => updateReview(idx, { amount: Number(e.target.value) || 0 })}
+                      className="w-24 text-[10px] font-black text-white bg-slate-900/70 backdrop-blur-md px-2 py-0.5 rounded outline-none"
+                    />
+                  ) : (
+                    <span className="text-[10px] font-black text-white bg-slate-900/50 backdrop-blur-md px-2 py-0.5 rounded">
+                      {formatCurrency(item.amount)}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <div className="p-5">
+                <div className="flex items-start justify-between gap-2 mb-2">
+                  <h4 className="text-xs font-bold text-slate-800 uppercase tracking-widest truncate flex-1" title={item.name}>
+                    <EditableText value={item.name} onChange={v => updateReview(idx, { name: v })} editing={editing} placeholder="Program name" />
+                  </h4>
+                  {regenerator({ kind: 'review', index: idx }, '-mt-1 -mr-1')}
+                </div>
+                <div className="text-xs text-slate-500 leading-relaxed">
+                  <EditableText value={item.review} onChange={v => updateReview(idx, { review: v })} editing={editing} multiline placeholder="Impact statement" />
+                </div>
+              </div>
+            </div>
+          ))}
+          {editing && (
+            <button
+              onClick={() => setField('sponsorshipReviews', [...proposal.sponsorshipReviews, { name: '', amount: 0, review: '' }])}
+              className="border-2 border-dashed border-slate-200 rounded-2xl min-h-[12rem] flex flex-col items-center justify-center gap-2 text-sm font-semibold text-slate-400 hover:border-indigo-300 hover:text-indigo-600 transition-colors no-print"
+            >
+              <Plus size={20} />
+              Add Retrospective Box
+            </button>
+          )}
+        </div>
+      </section>
+
+      {/* Strategic Recommendations */}
+      <section className="mt-16 print-break-before">
+        <h2 className={`${look.heading} mb-8 flex items-center gap-2`}>
+          {look.icons && <Sparkles size={16} />}
+          {proposalYear(proposal)} Strategic Recommendations
+        </h2>
+        <div className="grid grid-cols-1 md:grid-cols-3 print:grid-cols-3 gap-8">
+          {proposal.recommendations.map((rec, idx) => (
+            <div key={idx} className={`proposal-card flex flex-col cursor-default group relative ${look.recCard}`}>
+              {editing && (
+                <ItemControls
+                  index={idx}
+                  count={proposal.recommendations.length}
+                  onMove={(from, to) => setField('recommendations', moveItem(proposal.recommendations, from, to))}
+                  onRemove={(i) => setField('recommendations', proposal.recommendations.filter((_, j) => j !== i))}
+                />
+              )}
+              <div className={`h-48 bg-slate-200 overflow-hidden relative ${look.imageCorners && 'rounded-t-3xl'}`}>
+                {rec.imageUrl ? (
+                  <img src={rec.imageUrl} alt={rec.program} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" />
+                ) : imagePlaceholder({ kind: 'recommendation', index: idx }, 48)}
+                {imageSwapper(rec.program, url => updateRecommendation(idx, { imageUrl: url }), 'top-4 right-4')}
+                <div className="absolute bottom-4 left-4">
+                  <div className="brand-band text-white text-[10px] font-black px-3 py-1 rounded-full uppercase tracking-wider shadow-lg">
+                    Priority {idx + 1}
+                  </div>
+                </div>
+              </div>
+              <div className="p-8 flex flex-col justify-between flex-1">
+                <div>
+                  <div className="flex items-start justify-between gap-2 mb-3">
+                    <h3 className="text-xl font-bold text-slate-900 leading-tight flex-1">
+                      <EditableText value={rec.program} onChange={v => updateRecommendation(idx, { program: v })} editing={editing} placeholder="Program name" />
+                    </h3>
+                    {regenerator({ kind: 'recommendation', index: idx }, '-mr-2')}
+                  </div>
+                  {(rec.tier || editing) && (
+                    <div className="text-xs font-bold brand-accent uppercase tracking-widest mb-3">
+                      <EditableText value={rec.tier || ''} onChange={v => updateRecommendation(idx, { tier: v || undefined })} editing={editing} placeholder="Sponsorship tier" />
+                    </div>
+                  )}
+                  <div className="text-slate-600 text-sm leading-relaxed mb-6 italic font-light">
+                    <EditableText value={rec.reasoning} onChange={v => updateRecommendation(idx, { reasoning: v })} editing={editing} multiline placeholder="Why this program fits" />
+                  </div>
+                </div>
+                <div className="pt-6 border-t border-slate-200/50 flex justify-between items-center gap-4">
+                  <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Target Allocation</span>
+                  <span className="text-lg font-black text-slate-900 text-right">
+                    <EditableText value={rec.suggestedInvestment} onChange={v => updateRecommendation(idx, { suggestedInvestment: v })} editing={editing} placeholder="$0" className="text-right" />
+                  </span>
+                </div>
+              </div>
+            </div>
+          ))}
+          {editing && (
+            <button
+              onClick={() => setField('recommendations', [...proposal.recommendations, { program: '', reasoning: '', suggestedInvestment: '' }])}
+              className="border-2 border-dashed border-slate-200 rounded-3xl min-h-[20rem] flex flex-col items-center justify-center gap-2 text-sm font-semibold text-slate-400 hover:border-indigo-300 hover:text-indigo-600 transition-colors no-print"
+            >
+              <Plus size={20} />
+              Add Recommendation
+            </button>
+          )}
+        </div>
+      </section>
+
+      <div className="proposal-card mt-20 pt-10 border-t border-slate-100 flex flex-col md:flex-row print:flex-row justify-between gap-10">
+        <div className="flex-1">
+          <h4 className="font-bold text-slate-900 mb-2">Notes & Next Steps</h4>
+          <textarea
+            value={proposal.notes || ''}
+            onChange={(e) => setField('notes', e.target.value)}
+            placeholder="Click here to add custom meeting notes..."
+            className="w-full h-32 border border-slate-200 rounded-xl p-4 text-sm text-slate-600 placeholder:text-slate-400 placeholder:italic placeholder:font-light outline-none focus:border-indigo-300 resize-y no-print"
+          />
+          {/* Textareas print poorly, so the notes print from a plain block instead */}
+          <div className="hidden print:block text-sm text-slate-600 whitespace-pre-wrap">
+            {proposal.notes}
+          </div>
+        </div>
+        {hasSender(profile) && (
+          <div className="md:w-56 text-sm">
+            <div className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-2">Prepared by</div>
+            {profile.senderName && <div className="font-bold text-slate-900">{profile.senderName}</div>}
+            {profile.senderTitle && <div className="text-slate-500">{profile.senderTitle}</div>}
+            {profile.name && <div className="text-slate-500">{profile.name}</div>}
+            {contact.map(line => <div key={line} className="text-slate-500">{line}</div>)}
+          </div>
+        )}
+        <div className="w-64 space-y-4">
+          <div className="border-b border-slate-900 h-10"></div>
+          <div className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Authorized Approver</div>
+        </div>
+      </div>
+
+      {profile.legalFooter.trim() && (
+        <div className="mt-12 pt-6 border-t border-slate-100 text-[10px] text-slate-400 leading-relaxed whitespace-pre-wrap">
+          {profile.legalFooter.trim()}
+        </div>
+      )}
+    </div>
+  );
+};
+
+const App = () => {
+  const [businesses, setBusinesses] = useState<BusinessSpend[]>([]);
+  const [pdfFiles, setPdfFiles] = useState<ProgramPdf[]>([]);
+  const [selectedBusiness, setSelectedBusiness] = useState<BusinessSpend | null>(null);
+  const [proposal, setProposal] = useState<ProposalData | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [visualLoading, setVisualLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState('');
+  const [workbookImport, setWorkbookImport] = useState<{ fileName: string; workbook: XLSX.WorkBook } | null>(null);
+  const [pendingImport, setPendingImport] = useState<{ sourceName: string; table: ImportTable } | null>(null);
+  const [savedProposals, setSavedProposals] = useState<StoredProposal[]>([]);
+  const [hydrated, setHydrated] = useState(false);
+  const [activeProposalId, setActiveProposalId] = useState<string | null>(null);
+  const [compareIds, setCompareIds] = useState<{ before: string; after: string } | null>(null);
+  const [editing, setEditing] = useState(false);
+  const [unsavedEditsFor, setUnsavedEditsFor] = useState<string | null>(null);
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchSelection, setBatchSelection] = useState<Set<string>>(new Set());
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [batchConcurrency, setBatchConcurrency] = useState(2);
+  const [batchMinSpend, setBatchMinSpend] = useState('');
+  const [batchSkipExisting, setBatchSkipExisting] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [docxLoading, setDocxLoading] = useState(false);
+  const [programCatalog, setProgramCatalog] = useState<CatalogProgram[]>([]);
+  const [page, setPage] = useState<'dashboard' | 'analytics' | 'catalog' | 'inventory' | 'media' | 'usage' | 'settings'>('dashboard');
+  const [slotClaims, setSlotClaims] = useState<SlotClaim[]>([]);
+  const [promptSettings, setPromptSettings] = useState<PromptSettings>(loadPromptSettings);
+  const [budgetRules, setBudgetRules] = useState<BudgetRules>(loadBudgetRules);
+  const [businessAliases, setBusinessAliases] = useState<BusinessAliases>(loadBusinessAliases);
+  const [mediaItems, setMediaItems] = useState<MediaItem[]>([]);
+  const [imagePicker, setImagePicker] = useState<{ query: string; apply: (url: string) => void } | null>(null);
+  const [directoryFilter, setDirectoryFilter] = useState<DirectoryFilter>(DEFAULT_DIRECTORY_FILTER);
+  const [segments, setSegments] = useState<Segment[]>(loadSegments);
+  const [activeSegmentId, setActiveSegmentId] = useState<string | null>(null);
+  const [pendingMerge, setPendingMerge] = useState<{ sourceName: string; imported: BusinessSpend[]; year: number; merge: boolean; groups: MergeGroup[] } | null>(null);
+  const [extractingCatalog, setExtractingCatalog] = useState(false);
+  const [usageSettings, setUsageSettings] = useState<UsageSettings>(loadUsageSettings);
+  const [organizationProfile, setOrganizationProfile] = useState<OrganizationProfile>(loadOrganizationProfile);
+  const [memberProfiles, setMemberProfiles] = useState<MemberProfiles>({});
+  const [memberProfileOpen, setMemberProfileOpen] = useState(false);
+  // Keyed by proposal id and slot, so a box only shows its spinner or failure for the version that made it
+  const [imageStates, setImageStates] = useState<Record<string, ImageState>>({});
+  // The generation on screen; leaving the proposal aborts it
+  const generation = useRef<AbortController | null>(null);
+  // Read by async work that finishes after the user may have switched versions
+  const shownProposalId = useRef<string | null>(null);
+  const savedProposalsRef = useRef<StoredProposal[]>([]);
+  // Section rewrites in flight; leaving the proposal aborts them along with the generation
+  const sectionRequests = useRef(new Set<AbortController>());
+  const [monthUsage, setMonthUsage] = useState<UsageReport | null>(null);
+
+  // Restore the last workspace from IndexedDB before anything is written back
+  useEffect(() => {
+    Promise.all([
+      loadWorkspaceValue<BusinessSpend[]>('businesses'),
+      loadWorkspaceValue<ProgramPdf[]>('pdfFiles'),
+      loadWorkspaceValue<CatalogProgram[]>('programCatalog'),
+      loadWorkspaceValue<SlotClaim[]>('slotClaims'),
+      loadWorkspaceValue<MemberProfiles>('memberProfiles'),
+      loadStoredProposals(),
+      loadMediaItems()
+    ])
+      .then(([storedBusinesses, storedPdfs, storedCatalog, storedClaims, storedMembers, storedProposals, storedMedia]) => {
+        if (storedBusinesses) setBusinesses(storedBusinesses);
+        if (storedPdfs) setPdfFiles(storedPdfs);
+        if (storedCatalog) setProgramCatalog(storedCatalog);
+        if (storedClaims) setSlotClaims(storedClaims);
+        if (storedMembers) setMemberProfiles(storedMembers);
+        setSavedProposals(storedProposals);
+        setMediaItems(storedMedia);
+      })
+      .catch(err => {
+        console.error("Failed to restore workspace:", err);
+        setError("Could not restore your saved workspace. New work will still be saved.");
+      })
+      .finally(() => setHydrated(true));
+  }, []);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    saveWorkspaceValue('businesses', businesses).catch(err => console.error("Failed to save businesses:", err));
+  }, [businesses, hydrated]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    saveWorkspaceValue('pdfFiles', pdfFiles).catch(err => console.error("Failed to save PDFs:", err));
+  }, [pdfFiles, hydrated]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    saveWorkspaceValue('programCatalog', programCatalog).catch(err => console.error("Failed to save program catalog:", err));
+  }, [programCatalog, hydrated]);
+
+  useEffect(() => {
+    if (!hydrated) return;
+    saveWorkspaceValue('memberProfiles', memberProfiles).catch(err => console.error("Failed to save member profiles:", err));
+  }, [memberProfiles, hydrated]);
+
+  useEffect(() => {
+    savePromptSettings(promptSettings);
+  }, [promptSettings]);
+
+  useEffect(() => {
+    saveBudgetRules(budgetRules);
+  }, [budgetRules]);
+
+  useEffect(() => {
+    saveBusinessAliases(businessAliases);
+  }, [businessAliases]);
+
+  useEffect(() => {
+    saveSegments(segments);
+  }, [segments]);
+
+  useEffect(() => {
+    saveUsageSettings(usageSettings);
+  }, [usageSettings]);
+
+  useEffect(() => {
+    saveOrganizationProfile(organizationProfile);
+  }, [organizationProfile]);
+
+  // Only the chosen brand families are fetched; Inter is already loaded by index.html
+  const brandFonts = brandFontsHref(organizationProfile);
+  useEffect(() => {
+    let link = document.getElementById('brand-fonts') as HTMLLinkElement | null;
+    if (!link) {
+      link = document.createElement('link');
+      link.id = 'brand-fonts';
+      link.rel = 'stylesheet';
+      document.head.appendChild(link);
+    }
+    link.href = brandFonts;
+  }, [brandFonts]);
+
+  // This month's spend across every user, for the budget warning; refreshed after each generation
+  const refreshMonthUsage = () => {
+    fetchUsageReport(currentMonth())
+      .then(setMonthUsage)
+      .catch(err => console.warn("Could not load this month's usage:", err));
+  };
+
+  useEffect(refreshMonthUsage, []);
+
+  const confirmWithinBudget = (proposals: number) => {
+    const overrun = budgetOverrun(monthUsage, proposals, averageProposalCost(savedProposals));
+    return !overrun || window.confirm(overrun);
+  };
+
+  useEffect(() => {
+    if (!hydrated) return;
+    saveWorkspaceValue('slotClaims', slotClaims).catch(err => console.error("Failed to save inventory:", err));
+  }, [slotClaims, hydrated]);
+
+  const persistProposal = (entry: StoredProposal) => {
+    setSavedProposals(prev => [...prev.filter(e => e.id !== entry.id), entry]);
+    saveStoredProposal(entry).catch(err => {
+      console.error("Failed to save proposal:", err);
+      setError("The proposal was generated but could not be saved to this browser.");
+    });
+  };
+
+  const addMediaItem = (item: MediaItem) =>
+    setMediaItems(prev => [...prev.filter(m => m.id !== item.id), item]);
+
+  const updateMediaItem = (item: MediaItem) => {
+    addMediaItem(item);
+    saveMediaItem(item).catch(err => {
+      console.error("Failed to save image:", err);
+      setError("The image could not be saved to the library.");
+    });
+  };
+
+  const removeMediaItem = (id: string) => {
+    setMediaItems(prev => prev.filter(m => m.id !== id));
+    deleteMediaItem(id).catch(err => console.error("Failed to delete image:", err));
+  };
+
+  const clearWorkspace = async () => {
+    if (!window.confirm("Clear the imported directory, member profiles, uploaded PDFs, program catalog, inventory and all saved proposals from this browser?")) return;
+    try {
+      cancelGeneration();
+      await clearWorkspaceDb();
+      setBusinesses([]);
+      setPdfFiles([]);
+      setProgramCatalog([]);
+      setSlotClaims([]);
+      setMemberProfiles({});
+      setPage('dashboard');
+      setSavedProposals([]);
+      setBatchJobs([]);
+      setBatchSelection(new Set());
+      setSelectedBusiness(null);
+      setProposal(null);
+      setActiveProposalId(null);
+      setCompareIds(null);
+      setEditing(false);
+      setSearch('');
+      setDirectoryFilter(DEFAULT_DIRECTORY_FILTER);
+      setActiveSegmentId(null);
+      setError(null);
+    } catch (err: any) {
+      setError("Failed to clear workspace: " + err.message);
+    }
+  };
+
+  // A member with nothing generated yet opens on their profile, so the first, paid generation can already use it
+  const openBusiness = (biz: BusinessSpend) => {
+    const saved = latestProposalFor(savedProposals, biz.businessName);
+    flushEdits();
+    setUnsavedEditsFor(null);
+    setSelectedBusiness(biz);
+    setProposal(saved ? displayedProposal(saved) : null);
+    setActiveProposalId(saved?.id ?? null);
+    setMemberProfileOpen(!saved);
+    setCompareIds(null);
+    setEditing(false);
+    setError(null);
+  };
+
+  // Edits apply immediately on screen; the IndexedDB write is debounced below
+  const updateProposal = (updater: (prev: ProposalData) => ProposalData) => {
+    setProposal(prev => (prev ? updater(prev) : prev));
+    setUnsavedEditsFor(activeProposalId);
+  };
+
+  // For async work that finishes after it started: the version it belongs to gets the change even if the user has moved on,
+  // and the screen only changes when that version is still the one shown
+  const updateSavedProposal = (id: string, updater: (prev: ProposalData) => ProposalData) => {
+    if (shownProposalId.current === id) {
+      setProposal(prev => (prev ? updater(prev) : prev));
+      setUnsavedEditsFor(id);
+      return;
+    }
+    const entry = savedProposalsRef.current.find(e => e.id === id);
+    if (entry) persistProposal({ ...entry, edited: updater(displayedProposal(entry)) });
+  };
+
+  // Writes pending edits now; called before anything swaps out the proposal on screen
+  const flushEdits = () => {
+    if (!unsavedEditsFor || !proposal) return;
+    const entry = savedProposals.find(e => e.id === unsavedEditsFor);
+    if (entry) persistProposal({ ...entry, edited: proposal });
+    setUnsavedEditsFor(null);
+  };
+
+  useEffect(() => {
+    if (!unsavedEditsFor) return;
+    const timer = setTimeout(flushEdits, 500);
+    return () => clearTimeout(timer);
+  }, [proposal, unsavedEditsFor]);
+
+  const discardEdits = (id: string) => {
+    const entry = savedProposals.find(e => e.id === id);
+    if (!entry || !window.confirm("Discard your edits and go back to the generated text?")) return;
+    persistProposal({ ...entry, edited: undefined });
+    setProposal(entry.proposal);
+    setUnsavedEditsFor(null);
+  };
+
+  const closeProposal = () => {
+    flushEdits();
+    cancelGeneration();
+    setMemberProfileOpen(false);
+    setSelectedBusiness(null);
+    setProposal(null);
+    setActiveProposalId(null);
+    setCompareIds(null);
+    setEditing(false);
+  };
+
+  const selectVersion = (id: string) => {
+    const entry = savedProposals.find(e => e.id === id);
+    if (!entry) return;
+    flushEdits();
+    setProposal(displayedProposal(entry));
+    setActiveProposalId(entry.id);
+  };
+
+  // Restoring copies the old version forward so it becomes the latest without rewriting history
+  const restoreVersion = (id: string) => {
+    flushEdits();
+    const entry = savedProposals.find(e => e.id === id);
+    if (!entry) return;
+    const restored: StoredProposal = {
+      id: createId(),
+      businessName: entry.businessName,
+      createdAt: Date.now(),
+      proposal: entry.proposal,
+      edited: unsavedEditsFor === entry.id && proposal ? proposal : entry.edited,
+      restoredFrom: entry.id
+    };
+    persistProposal(restored);
+    setProposal(displayedProposal(restored));
+    setActiveProposalId(restored.id);
+  };
 
   const loadDemoCase = () => {
     const acxiom: BusinessSpend = {
@@ -247,26 +6483,91 @@ const App = () => {
       ]
     };
 
+    // Library photos replace the stock ones wherever a program matches
+    const fromLibrary = (name: string, fallback?: string) => findLibraryImage(mediaItems, name)?.dataUrl ?? fallback;
     setBusinesses([acxiom]);
     setSelectedBusiness(acxiom);
-    setProposal(demoProposal);
+    setProposal({
+      ...demoProposal,
+      sponsorshipReviews: demoProposal.sponsorshipReviews.map(r => ({ ...r, imageUrl: fromLibrary(r.name, r.imageUrl) })),
+      recommendations: demoProposal.recommendations.map(r => ({ ...r, imageUrl: fromLibrary(r.program, r.imageUrl) }))
+    });
+    setActiveProposalId(null);
+    setCompareIds(null);
+    setEditing(false);
     setError(null);
   };
 
-  const handleCsvUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleSpendUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    // Reset so the same workbook can be re-opened to pick a different sheet
+    e.target.value = '';
     if (!file) return;
     try {
-      const text = await file.text();
-      const data = parseCSV(text);
-      if (data.length === 0) throw new Error("Could not parse spending data. Ensure CSV has Business and Spend columns.");
-      setBusinesses(data);
+      if (isWorkbookFile(file)) {
+        const workbook = await readWorkbook(file);
+        if (workbook.SheetNames.length === 0) throw new Error("The workbook does not contain any sheets.");
+        setWorkbookImport({ fileName: file.name, workbook });
+        setError(null);
+        return;
+      }
+      const table = csvToTable(await file.text());
+      if (table.rows.length < 2) throw new Error("Could not parse spending data. Ensure CSV has Business and Spend columns.");
+      setPendingImport({ sourceName: file.name, table });
       setError(null);
     } catch (err: any) {
       setError(err.message);
     }
   };
 
+  const handleSheetSelect = (sheetName: string) => {
+    if (!workbookImport) return;
+    const table = sheetToTable(workbookImport.workbook.Sheets[sheetName]);
+    if (table.rows.length < 2) {
+      setError(`Could not parse spending data from sheet "${sheetName}". Ensure it has Business and Spend columns.`);
+      return;
+    }
+    setPendingImport({ sourceName: `${workbookImport.fileName} › ${sheetName}`, table });
+    setWorkbookImport(null);
+    setError(null);
+  };
+
+  const handleMappingConfirm = (mapping: ColumnMapping, year: number, merge: boolean) => {
+    if (!pendingImport) return;
+    const { businesses: data } = parseSpendTable(pendingImport.table, mapping);
+    if (data.length === 0) {
+      setError("Could not parse spending data with the selected columns.");
+      return;
+    }
+    saveMapping(pendingImport.table.rows[0], mapping);
+    // Known aliases resolve silently; anything that still looks like a duplicate goes to review first
+    const imported = applyBusinessAliases(data, businessAliases);
+    const groups = findMergeGroups(imported, merge ? applyBusinessAliases(businesses, businessAliases) : [], businessAliases);
+    setPendingImport(null);
+    setError(null);
+    if (groups.length) {
+      setPendingMerge({ sourceName: pendingImport.sourceName, imported, year, merge, groups });
+      return;
+    }
+    setBusinesses(prev => mergeSpendYear(merge ? applyBusinessAliases(prev, businessAliases) : [], imported, year));
+  };
+
+  const handleMergeConfirm = (groups: MergeGroup[]) => {
+    if (!pendingMerge) return;
+    const { imported, year, merge } = pendingMerge;
+    const aliases = recordMergeDecisions(businessAliases, groups);
+    setBusinessAliases(aliases);
+    setBusinesses(prev => mergeSpendYear(merge ? applyBusinessAliases(prev, aliases) : [], applyBusinessAliases(imported, aliases), year));
+    // Saved proposals, inventory claims and member profiles follow their business to its canonical name
+    savedProposals.forEach(entry => {
+      const businessName = resolveBusinessName(entry.businessName, aliases);
+      if (businessName !== entry.businessName) persistProposal({ ...entry, businessName });
+    });
+    setSlotClaims(prev => prev.map(claim => ({ ...claim, businessName: resolveBusinessName(claim.businessName, aliases) })));
+    setMemberProfiles(prev => resolveMemberProfiles(prev, aliases));
+    setPendingMerge(null);
+  };
+
   const handlePdfUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const files = Array.from(e.target.files || []) as File[];
     if (files.length === 0) return;
@@ -279,6 +6580,7 @@ const App = () => {
       })));
       setPdfFiles(prev => [...prev, ...newPdfs]);
       setError(null);
+      extractCatalog(newPdfs);
     } catch (err: any) {
       setError("Failed to process PDFs");
     } finally {
@@ -286,110 +6588,515 @@ const App = () => {
     }
   };
 
-  const generateImage = async (prompt: string): Promise<string | undefined> => {
-    try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-image-preview',
-        contents: {
-          parts: [{ text: `A professional, high-end business photograph for a sales proposal representing: ${prompt}. Cinematic lighting, corporate aesthetic, clean composition, 16:9 aspect ratio.` }]
-        },
-        config: {
-          imageConfig: { aspectRatio: "16:9" }
-        }
+  // Re-extracting a PDF replaces the programs that came from it; programs added by hand are kept
+  const extractCatalog = async (pdfs: ProgramPdf[]) => {
+    if (pdfs.length === 0) return;
+    setExtractingCatalog(true);
+    const failed: string[] = [];
+    for (const pdf of pdfs) {
+      try {
+        const programs = await extractProgramCatalog(pdf, activeTemplate(promptSettings).fiscalYear);
+        // Programs that come back under the same name keep their id, so inventory claims stay attached
+        setProgramCatalog(prev => {
+          const previous = prev.filter(p => p.sourcePdf === pdf.name);
+          const merged = programs.map(p => ({ ...p, id: findCatalogProgram(previous, p.name)?.id || p.id }));
+          return [...prev.filter(p => p.sourcePdf !== pdf.name), ...merged];
+        });
+      } catch (err: any) {
+        console.error(`Catalog extraction failed for ${pdf.name}:`, err);
+        failed.push(`${pdf.name} (${err.message})`);
+      }
+    }
+    setExtractingCatalog(false);
+    if (failed.length) setError(`Could not extract programs from ${failed.join(', ')}. Proposals will use the raw PDFs until the catalog has programs.`);
+  };
+
+  // Removing a program from the catalog releases its claims
+  // Claims key on the tier name, so a tier renamed in place carries its claims to the new name
+  const updateCatalog = (programs: CatalogProgram[]) => {
+    const renames = new Map<string, string>();
+    programs.forEach(program => {
+      const before = programCatalog.find(p => p.id === program.id);
+      if (!before || before.tiers.length !== program.tiers.length) return;
+      before.tiers.forEach((tier, i) => {
+        if (tier.name !== program.tiers[i].name) renames.set(`${program.id}/${tier.name}`, program.tiers[i].name);
       });
-      
-      const part = response.candidates?.[0]?.content?.parts.find(p => p.inlineData);
-      return part?.inlineData ? `data:image/png;base64,${part.inlineData.data}` : undefined;
-    } catch (e) {
-      console.error("Image generation failed:", e);
-      return undefined;
+    });
+    setProgramCatalog(programs);
+    setSlotClaims(prev => prev
+      .filter(c => programs.some(p => p.id === c.programId))
+      .map(c => {
+        const tierName = renames.get(`${c.programId}/${c.tierName}`);
+        return tierName === undefined ? c : { ...c, tierName, updatedAt: Date.now() };
+      }));
+  };
+
+  // Returns why a held/sold claim can't be placed, or null when the tier still has room
+  const slotConflict = (programId: string, tierName: string, ignoreClaimId?: string) => {
+    const program = programCatalog.find(p => p.id === programId);
+    const tier = program?.tiers.find(t => t.name === tierName);
+    if (!program || !tier) return null;
+    const others = slotClaims.filter(c => c.id !== ignoreClaimId);
+    if (slotsRemaining(program, tier, others) > 0) return null;
+    const holders = others.filter(c => c.programId === programId && c.tierName === tierName && takesSlot(c)).map(c => c.businessName);
+    return `${program.name} · ${tier.name} is fully committed to ${holders.join(', ')}. Release a claim before holding or selling another.`;
+  };
+
+  const setClaimStatus = (id: string, status: SlotClaim['status']) => {
+    const claim = slotClaims.find(c => c.id === id);
+    if (!claim) return;
+    const conflict = status !== 'proposed' && !takesSlot(claim) ? slotConflict(claim.programId, claim.tierName, id) : null;
+    if (conflict) {
+      setError(conflict);
+      return;
+    }
+    setSlotClaims(prev => prev.map(c => (c.id === id ? { ...c, status, updatedAt: Date.now() } : c)));
+    setError(null);
+  };
+
+  // A business has at most one claim per tier; adding again just updates its status
+  const addClaim = (claim: Omit<SlotClaim, 'id' | 'updatedAt'>) => {
+    const existing = slotClaims.find(c =>
+      c.programId === claim.programId && c.tierName === claim.tierName && c.businessName === claim.businessName
+    );
+    if (existing) {
+      setClaimStatus(existing.id, claim.status);
+      return;
+    }
+    const conflict = takesSlot({ ...claim, id: '', updatedAt: 0 }) ? slotConflict(claim.programId, claim.tierName) : null;
+    if (conflict) {
+      setError(conflict);
+      return;
     }
+    setSlotClaims(prev => [...prev, { ...claim, id: createId(), updatedAt: Date.now() }]);
+    setError(null);
+  };
+
+  // A new set of recommendations replaces the business's proposed claims; holds and sales stay until staff change them
+  const proposeSlots = (businessName: string, recommendations: ProposalData['recommendations'], proposalId?: string) => {
+    if (programCatalog.length === 0) return;
+    setSlotClaims(prev => {
+      const next = prev.filter(c => c.businessName !== businessName || c.status !== 'proposed');
+      recommendations.forEach(rec => {
+        const program = findCatalogProgram(programCatalog, rec.program);
+        const tier = program && rec.tier ? findTier(program, rec.tier) : undefined;
+        if (!program || !tier) return;
+        if (next.some(c => c.businessName === businessName && c.programId === program.id && c.tierName === tier.name)) return;
+        next.push({ id: createId(), programId: program.id, tierName: tier.name, businessName, status: 'proposed', proposalId, updatedAt: Date.now() });
+      });
+      return next;
+    });
+  };
+
+  const reextractCatalog = () => {
+    if (programCatalog.some(p => p.sourcePdf) && !window.confirm("Re-extracting replaces the programs read from the PDFs, including any corrections made to them. Continue?")) return;
+    extractCatalog(pdfFiles);
+  };
+
+  const setImageState = (proposalId: string, slot: ImageSlot, state: ImageState | null) =>
+    setImageStates(prev => {
+      const { [`${proposalId}/${imageSlotKey(slot)}`]: _, ...rest } = prev;
+      return state ? { ...rest, [`${proposalId}/${imageSlotKey(slot)}`]: state } : rest;
+    });
+
+  // A cancelled generation never reports its remaining images, so their boxes go back to offering a retry
+  const clearLoadingImages = (proposalId: string) =>
+    setImageStates(prev => Object.fromEntries(
+      Object.entries(prev).filter(([key, state]) => !(key.startsWith(`${proposalId}/`) && state === 'loading'))
+    ));
+
+  const cancelGeneration = () => {
+    generation.current?.abort();
+    generation.current = null;
+    sectionRequests.current.forEach(controller => controller.abort());
+    sectionRequests.current.clear();
+    setLoading(false);
+    setVisualLoading(false);
   };
 
   const generateProposal = async (biz: BusinessSpend) => {
+    if (!confirmWithinBudget(1)) return;
+    flushEdits();
+    cancelGeneration();
+    const controller = new AbortController();
+    generation.current = controller;
     setSelectedBusiness(biz);
     setLoading(true);
     setVisualLoading(false);
     setProposal(null);
-    
+    setActiveProposalId(null);
+    setCompareIds(null);
+    setEditing(false);
+    const id = createId();
+
     try {
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const pdfParts = pdfFiles.map(pdf => ({
-        inlineData: {
-          mimeType: 'application/pdf',
-          data: pdf.data
-        }
-      }));
+      const createdAt = Date.now();
+
+      const catalog = availableCatalog(programCatalog, slotClaims, biz.businessName);
+      const template = activeTemplate(promptSettings);
+      // Callbacks can still arrive after the user has left; those are dropped
+      const live = () => !controller.signal.aborted;
+      const withImages = await createProposal(biz, pdfFiles, catalog, template, budgetRules, memberProfiles[biz.businessName] || null, organizationProfile, {
+        signal: controller.signal,
+        onPartial: partial => { if (live()) setProposal(partial); },
+        onDraft: draft => {
+          // Save the text and reserve its slots right away so a reload or cancel during image generation doesn't lose them
+          persistProposal({ id, businessName: biz.businessName, createdAt, proposal: draft, templateId: template.id });
+          proposeSlots(biz.businessName, draft.recommendations, id);
+          if (!live()) return;
+          setProposal(draft);
+          setActiveProposalId(id);
+          setLoading(false);
+          setVisualLoading(true);
+          draft.recommendations.forEach((_, index) => setImageState(id, { kind: 'recommendation', index }, 'loading'));
+          draft.sponsorshipReviews.forEach((_, index) => setImageState(id, { kind: 'review', index }, 'loading'));
+        },
+        onImage: (slot, { url, error }) => {
+          if (!live()) return;
+          if (error) console.error(`Image for ${imageSlotKey(slot)} failed:`, error);
+          setImageState(id, slot, url ? null : 'failed');
+          if (url) setProposal(prev => (prev ? withSlotImage(prev, slot, url) : prev));
+        },
+        onImageSaved: addMediaItem
+      });
+
+      // Edits made while the images loaded are kept; only the pictures and the final usage are merged in
+      const saved = savedProposalsRef.current.find(e => e.id === id);
+      persistProposal({
+        id,
+        businessName: biz.businessName,
+        createdAt,
+        proposal: withImages,
+        templateId: template.id,
+        ...(saved?.edited ? { edited: { ...withImagesFrom(saved.edited, withImages), usage: withImages.usage } } : {})
+      });
+      if (live()) setProposal(prev => (prev ? { ...withImagesFrom(prev, withImages), usage: withImages.usage } : null));
+
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError("Failed to generate proposal: " + err.message);
+    } finally {
+      if (controller.signal.aborted) clearLoadingImages(id);
+      if (generation.current === controller) {
+        generation.current = null;
+        setLoading(false);
+        setVisualLoading(false);
+      }
+      refreshMonthUsage();
+    }
+  };
+
+  // Retries one picture, from the library when a match has appeared since, otherwise by generating it
+  const retryImage = async (slot: ImageSlot) => {
+    if (!proposal || !activeProposalId) return;
+    const proposalId = activeProposalId;
+    const item = slot.kind === 'recommendation' ? proposal.recommendations[slot.index] : proposal.sponsorshipReviews[slot.index];
+    if (!item) return;
+    const name = 'program' in item ? item.program : item.name;
+    const calls: CallUsage[] = [];
+    setImageState(proposalId, slot, 'loading');
+    try {
+      const url = await libraryImage(mediaItems, name, item.imagePrompt || '', organizationProfile, addMediaItem, call => { calls.push(call); });
+      setImageState(proposalId, slot, null);
+      updateSavedProposal(proposalId, prev => ({ ...withSlotImage(prev, slot, url), usage: calls.reduce(addUsage, prev.usage) }));
+    } catch (err: any) {
+      console.error("Image retry failed:", err);
+      setImageState(proposalId, slot, 'failed');
+    } finally {
+      refreshMonthUsage();
+    }
+  };
+
+  const versionCounts = useMemo(() => {
+    const counts: Record<string, number> = {};
+    savedProposals.forEach(e => { counts[e.businessName] = (counts[e.businessName] || 0) + 1; });
+    return counts;
+  }, [savedProposals]);
+
+  const memberIndustries = useMemo(
+    () => Array.from(new Set(Object.values(memberProfiles).map((m: MemberProfile) => m.industry.trim()).filter(Boolean))).sort((a, b) => a.localeCompare(b)),
+    [memberProfiles]
+  );
+
+  const versions = useMemo(
+    () => (selectedBusiness ? versionsFor(savedProposals, selectedBusiness.businessName) : []),
+    [savedProposals, selectedBusiness]
+  );
+  const activeVersionIdx = versions.findIndex(v => v.id === activeProposalId);
+
+  useEffect(() => {
+    shownProposalId.current = activeProposalId;
+  }, [activeProposalId]);
+
+  useEffect(() => {
+    savedProposalsRef.current = savedProposals;
+  }, [savedProposals]);
+
+  // Images still fill in after the text is done; editing waits for them so indices stay put
+  const generating = loading || visualLoading;
+  const pendingImages = Object.entries(imageStates).filter(([key, state]) => key.startsWith(`${activeProposalId}/`) && state === 'loading').length;
+  const usageAlert = budgetAlert(monthUsage, usageSettings);
+
+  const businessClaims = useMemo(
+    () => (selectedBusiness ? slotClaims.filter(c => c.businessName === selectedBusiness.businessName) : []),
+    [slotClaims, selectedBusiness]
+  );
+
+  const downloadDocx = async () => {
+    if (!selectedBusiness || !proposal) return;
+    setDocxLoading(true);
+    try {
+      const blob = await buildProposalDocx(selectedBusiness, proposal, profileForProposal(organizationProfile, proposal), memberProfiles[selectedBusiness.businessName]);
+      downloadBlob(blob, `${slugify(selectedBusiness.businessName)}-${proposalYear(proposal)}-proposal.docx`);
+    } catch (err: any) {
+      setError(`Word export failed: ${err.message}`);
+    } finally {
+      setDocxLoading(false);
+    }
+  };
+
+  const regenerateSection = async (section: ProposalSection, instruction: string) => {
+    if (!selectedBusiness || !proposal || !activeProposalId) return;
+    const biz = selectedBusiness;
+    // The user may switch versions or businesses while this runs, so the result goes to the version it was asked for
+    const proposalId = activeProposalId;
+    const businessName = biz.businessName;
+    const spec = sectionPromptSpec(section, proposal);
+    // Rewrites follow the template the proposal was generated with, when it still exists
+    const generatedWith = savedProposals.find(e => e.id === proposalId)?.templateId;
+    const template = promptSettings.templates.find(t => t.id === generatedWith) || activeTemplate(promptSettings);
+    // A rewritten recommendation has to fit in whatever budget the other recommendations leave
+    // and only that recommendation is checked, so hand edits elsewhere that went over budget don't block the rewrite
+    const budget = proposal.budget;
+    const otherRecs = section.kind === 'recommendation' ? proposal.recommendations.filter((_, i) => i !== section.index) : [];
+    const sectionBudget = budget ? { ...budget, target: Math.max(budget.minInvestment, budget.target - (proposedTotal(otherRecs) ?? 0)) } : null;
+    const available = availableCatalog(programCatalog, slotClaims, businessName);
+    const catalog = sectionBudget ? affordableCatalog(available, sectionBudget) : available;
+    const openPrograms = (programs: CatalogProgram[]) => programs.filter(p => p.availability !== 'sold-out');
+    if (section.kind === 'recommendation' && programCatalog.length && !openPrograms(catalog).length) {
+      setError(openPrograms(available).length
+        ? `No catalog program has a tier within the ${formatInvestment(sectionBudget!.target)} left in ${businessName}'s budget. Lower another recommendation first, or raise the budget.`
+        : `Every catalog program is sold out or already claimed for ${businessName}, so there is nothing to recommend instead.`);
+      return;
+    }
+    const calls: CallUsage[] = [];
+    const track = (call: CallUsage) => { calls.push(call); };
+    const controller = new AbortController();
+    sectionRequests.current.add(controller);
 
+    try {
       const prompt = `
-        You are a world-class Senior Sales Executive. 
-        Create a highly personalized 2026 Sales Proposal for the business: ${biz.businessName}.
+        You are a world-class Senior Sales Executive revising one section of an existing ${template.fiscalYear} Sales Proposal for the business: ${biz.businessName}.
+        Write in this tone: ${template.tone}.
 
-        Here is their 2025 Spending Data:
+        Here is their ${template.fiscalYear - 1} Spending Data:
         Total Spend: ${formatCurrency(biz.totalSpend)}
-        Product Breakdown: ${JSON.stringify(biz.products)}
+        Product Breakdown: ${JSON.stringify(biz.products)}${historyPrompt(biz)}${memberPrompt(memberProfiles[biz.businessName])}
 
-        Review the attached Events Blueprint PDF.
-        Structure the proposal as follows:
-        1. Professional summary of their 2025 relationship.
-        2. "sponsorshipReviews" array: For each 2025 product, write a brief impact statement.
-        3. Identify 3 specific 2026 "Strategic Recommendations" from the PDF.
-        
-        REQUIRED RECOMMENDATIONS (if found in PDF, use these):
-        - Annual Meeting Presenting Sponsor
-        - Toad Suck Daze Tinkerfest Title Sponsor
-        - Women in Business Title Sponsor
+        Here is the current proposal (JSON):
+        ${proposalContext(proposal)}
+
+        Rewrite ONLY ${spec.label}. Keep it consistent in tone and facts with the rest of the proposal.
+        ${section.kind !== 'recommendation' ? '' : programCatalog.length
+          ? `Choose the program and tier from this ${template.fiscalYear} Program Catalog (JSON), using names exactly as listed and never a sold-out program. Only the tiers listed still have slots:
+        ${catalogContext(catalog)}`
+          : 'Choose the program from the attached Events Blueprint PDF.'}
+        ${section.kind === 'recommendation' && sectionBudget ? `"suggestedInvestment" must be a single dollar amount between ${formatInvestment(sectionBudget.minInvestment)} and ${formatInvestment(sectionBudget.target)} so the proposal stays within its ${formatInvestment(budget!.target)} budget.` : ''}
+        ${section.kind === 'recommendation' && templateList(template.excludedPrograms).length ? `Never recommend: ${templateList(template.excludedPrograms).join('; ')}.` : ''}
+        ${instruction.trim() ? `Reviewer guidance for this rewrite: ${instruction.trim()}` : ''}
 
         Response Format (Strict JSON):
-        {
-          "summary": "Professional executive summary",
-          "analysis": "Data-driven analysis",
-          "sponsorshipReviews": [
-            { "name": "Product Name", "amount": 0.0, "review": "Impact statement", "imagePrompt": "Image description for 2025 retrospective" }
-          ],
-          "recommendations": [
-            { "program": "Program Name", "reasoning": "Strategy linked to PDF text", "suggestedInvestment": "$Amount", "imagePrompt": "Image description for 2026 program" }
-          ]
-        }
+        ${spec.format}
       `;
 
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-flash-preview',
-        contents: [{ parts: [...pdfParts, { text: prompt }] }],
-        config: { responseMimeType: 'application/json' }
-      });
+      const response = await generateJson(
+        [...(section.kind === 'recommendation' && !programCatalog.length ? toPdfParts(pdfFiles) : []), { text: prompt }],
+        spec.schema,
+        track,
+        controller.signal
+      );
 
-      const result: ProposalData = JSON.parse(response.text || '{}');
-      setProposal(result);
-      
-      setVisualLoading(true);
-      const recImages = await Promise.all(result.recommendations.map(r => generateImage(r.imagePrompt || r.program)));
-      const reviewImages = await Promise.all(result.sponsorshipReviews.map(s => generateImage(s.imagePrompt || s.name)));
+      const result = JSON.parse(response.text || '{}');
 
-      setProposal(prev => {
-        if (!prev) return null;
-        return {
+      let apply: (prev: ProposalData) => ProposalData;
+      if (section.kind === 'summary' || section.kind === 'analysis') {
+        const text = result[section.kind];
+        if (typeof text !== 'string' || !text.trim()) throw new Error("The response did not include the rewritten text.");
+        apply = prev => ({ ...prev, [section.kind]: text });
+      } else if (section.kind === 'review') {
+        if (typeof result.review !== 'string' || !result.review.trim()) throw new Error("The response did not include the rewritten review.");
+        apply = prev => ({
           ...prev,
-          recommendations: prev.recommendations.map((r, i) => ({ ...r, imageUrl: recImages[i] })),
-          sponsorshipReviews: prev.sponsorshipReviews.map((s, i) => ({ ...s, imageUrl: reviewImages[i] }))
-        };
-      });
+          sponsorshipReviews: prev.sponsorshipReviews.map((r, i) => (i === section.index ? { ...r, review: result.review } : r))
+        });
+      } else {
+        const issues: string[] = [];
+        const rec = validateRecommendation(result, 'recommendation', issues);
+        issues.push(...catalogIssues([rec], catalog, 'recommendation'));
+        if (sectionBudget) issues.push(...budgetIssues([rec], sectionBudget, 'recommendation'));
+        if (issues.length) throw new Error(`The response was incomplete: ${issues.join(' ')}`);
+        const current = proposal.recommendations[section.index];
+        // Only a different program needs a new picture; a reworded pitch keeps its image
+        // The new text is kept even if its picture fails; the box then offers a retry
+        const imageUrl = current && current.program === rec.program
+          ? current.imageUrl
+          : await libraryImage(mediaItems, rec.program, rec.imagePrompt || '', organizationProfile, addMediaItem, track, controller.signal).catch(err => {
+              if (controller.signal.aborted) throw err;
+              console.error("Image generation failed:", err);
+              setImageState(proposalId, section, 'failed');
+              return undefined;
+            });
+        apply = prev => ({
+          ...prev,
+          recommendations: prev.recommendations.map((r, i) => (i === section.index ? { ...rec, imageUrl } : r))
+        });
+        proposeSlots(businessName, proposal.recommendations.map((r, i) => (i === section.index ? rec : r)), proposalId);
+      }
+      // Rewrites count toward the proposal's cost; a failed rewrite leaves the proposal untouched and only shows in the usage report
+      updateSavedProposal(proposalId, prev => ({ ...apply(prev), usage: calls.reduce(addUsage, prev.usage) }));
+      if (shownProposalId.current === proposalId) setError(null);
+    } catch (err: any) {
+      if (!controller.signal.aborted) setError("Failed to regenerate section: " + err.message);
+    } finally {
+      sectionRequests.current.delete(controller);
+      refreshMonthUsage();
+    }
+  };
 
+  const updateBatchJob = (businessName: string, patch: Partial<BatchJob>) =>
+    setBatchJobs(prev => prev.map(j => (j.businessName === businessName ? { ...j, ...patch } : j)));
+
+  // Batch runs never touch the proposal on screen; results go straight to storage for later review
+  const runBatchJob = async (businessName: string) => {
+    updateBatchJob(businessName, { status: 'running', error: undefined });
+    const biz = businesses.find(b => b.businessName === businessName);
+    if (!biz) {
+      updateBatchJob(businessName, { status: 'failed', error: 'This business is no longer in the directory.' });
+      return;
+    }
+
+    const id = createId();
+    const createdAt = Date.now();
+    // Failed attempts still spent money on the calls they made before giving up, so retries add to the total
+    let cost = batchJobs.find(j => j.businessName === businessName)?.cost ?? 0;
+    try {
+      const catalog = availableCatalog(programCatalog, slotClaims, businessName);
+      const template = activeTemplate(promptSettings);
+      const result = await createProposal(biz, pdfFiles, catalog, template, budgetRules, memberProfiles[biz.businessName] || null, organizationProfile, {
+        onDraft: draft => persistProposal({ id, businessName, createdAt, proposal: draft, templateId: template.id }),
+        onImageSaved: addMediaItem,
+        onUsage: call => { cost += call.cost ?? 0; }
+      });
+      persistProposal({ id, businessName, createdAt, proposal: result, templateId: template.id });
+      proposeSlots(businessName, result.recommendations, id);
+      updateBatchJob(businessName, { status: 'done', proposalId: id, cost });
     } catch (err: any) {
-      setError("Failed to generate proposal: " + err.message);
+      updateBatchJob(businessName, { status: 'failed', error: err.message, cost });
     } finally {
-      setLoading(false);
-      setVisualLoading(false);
+      refreshMonthUsage();
+    }
+  };
+
+  // Starts queued jobs whenever a slot frees up
+  useEffect(() => {
+    const running = batchJobs.filter(j => j.status === 'running').length;
+    batchJobs
+      .filter(j => j.status === 'queued')
+      .slice(0, Math.max(0, batchConcurrency - running))
+      .forEach(j => runBatchJob(j.businessName));
+  }, [batchJobs, batchConcurrency]);
+
+  const toggleBatchSelection = (businessName: string) => {
+    setBatchSelection(prev => {
+      const next = new Set(prev);
+      if (next.has(businessName)) next.delete(businessName);
+      else next.add(businessName);
+      return next;
+    });
+  };
+
+  const selectAboveThreshold = () => {
+    const min = parseAmount(batchMinSpend);
+    if (!Number.isFinite(min)) {
+      setError("Enter the minimum spend as a number, e.g. 5000.");
+      return;
     }
+    setBatchSelection(new Set(filteredBusinesses.filter(b => b.totalSpend >= min).map(b => b.businessName)));
   };
 
-  const filteredBusinesses = useMemo(() => 
-    businesses.filter(b => b.businessName.toLowerCase().includes(search.toLowerCase())),
-    [businesses, search]
+  const queueBatch = () => {
+    const active = new Set(batchJobs.filter(j => j.status === 'queued' || j.status === 'running').map(j => j.businessName));
+    const names = Array.from(batchSelection).filter(name =>
+      !active.has(name) && !(batchSkipExisting && versionCounts[name] > 0)
+    );
+    if (names.length === 0) {
+      setError("Nothing to queue. The selected businesses are already queued or already have saved proposals.");
+      return;
+    }
+    if (!confirmWithinBudget(names.length)) return;
+    setBatchJobs(prev => [
+      ...prev.filter(j => !names.includes(j.businessName)),
+      ...names.map(businessName => ({ businessName, status: 'queued' as const }))
+    ]);
+    setBatchSelection(new Set());
+    setError(null);
+  };
+
+  const filteredBusinesses = useMemo(
+    () => applyDirectoryFilter(businesses, directoryFilter, search),
+    [businesses, directoryFilter, search]
   );
 
+  const directoryPrograms = useMemo(
+    () => Array.from(new Set<string>(businesses.flatMap(b => Object.keys(b.products)))).sort((a, b) => a.localeCompare(b)),
+    [businesses]
+  );
+
+  const changeDirectoryFilter = (filter: DirectoryFilter) => {
+    setDirectoryFilter(filter);
+    setActiveSegmentId(null);
+  };
+
+  const saveSegment = (name: string) => {
+    const segment: Segment = { id: createId(), name, filter: directoryFilter };
+    setSegments(prev => [...prev, segment]);
+    setActiveSegmentId(segment.id);
+  };
+
+  const applySegment = (segment: Segment) => {
+    setDirectoryFilter(segment.filter);
+    setActiveSegmentId(segment.id);
+  };
+
+  // Launching a segment goes through batch mode so the selection can be reviewed before anything is generated
+  const selectShownForBatch = () => {
+    setBatchMode(true);
+    setBatchSelection(new Set(filteredBusinesses.map(b => b.businessName)));
+  };
+
+  // Exports the batch selection when there is one, otherwise every shown business with a saved proposal
+  const exportProposals = async () => {
+    const candidates = batchSelection.size > 0
+      ? businesses.filter(b => batchSelection.has(b.businessName))
+      : filteredBusinesses;
+    const items = candidates
+      .map(business => ({ business, entry: latestProposalFor(savedProposals, business.businessName) }))
+      .filter((item): item is { business: BusinessSpend; entry: StoredProposal } => !!item.entry);
+    if (items.length === 0) {
+      setError("No saved proposals to export. Generate proposals for these businesses first.");
+      return;
+    }
+    setExporting(true);
+    setError(null);
+    try {
+      const zip = await buildProposalZip(items, organizationProfile, memberProfiles);
+      downloadBlob(zip, `proposals-${new Date().toISOString().slice(0, 10)}.zip`);
+    } catch (err: any) {
+      setError(`Export failed: ${err.message}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
   return (
     <div className="max-w-7xl mx-auto px-4 py-8 pb-20">
       {/* Header */}
@@ -414,7 +7121,7 @@ const App = () => {
           <label className="flex items-center gap-2 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-300 cursor-pointer transition-colors group">
             <FileSpreadsheet size={18} className="text-slate-400 group-hover:text-indigo-500" />
             <span className="text-sm font-medium">Upload Master Spend</span>
-            <input type="file" accept=".csv" className="hidden" onChange={handleCsvUpload} />
+            <input type="file" accept=".csv,.xlsx,.xlsm,.xls" className="hidden" onChange={handleSpendUpload} />
           </label>
           
           <label className="flex items-center gap-2 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-300 cursor-pointer transition-colors group">
@@ -422,6 +7129,73 @@ const App = () => {
             <span className="text-sm font-medium">Upload Programs (PDF)</span>
             <input type="file" accept=".pdf" multiple className="hidden" onChange={handlePdfUpload} />
           </label>
+
+          {businesses.length > 0 && (
+            <button
+              onClick={() => { closeProposal(); setPage('analytics'); }}
+              className="flex items-center gap-2 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-300 transition-colors group"
+            >
+              <BarChart3 size={18} className="text-slate-400 group-hover:text-indigo-500" />
+              <span className="text-sm font-medium">Analytics</span>
+            </button>
+          )}
+
+          {(pdfFiles.length > 0 || programCatalog.length > 0) && (
+            <button
+              onClick={() => { closeProposal(); setPage('catalog'); }}
+              className="flex items-center gap-2 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-300 transition-colors group"
+            >
+              {extractingCatalog
+                ? <Loader2 size={18} className="text-indigo-500 animate-spin" />
+                : <BookOpen size={18} className="text-slate-400 group-hover:text-indigo-500" />}
+              <span className="text-sm font-medium">Program Catalog ({programCatalog.length})</span>
+            </button>
+          )}
+
+          {programCatalog.length > 0 && (
+            <button
+              onClick={() => { closeProposal(); setPage('inventory'); }}
+              className="flex items-center gap-2 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-300 transition-colors group"
+            >
+              <Ticket size={18} className="text-slate-400 group-hover:text-indigo-500" />
+              <span className="text-sm font-medium">Inventory</span>
+            </button>
+          )}
+
+          <button
+            onClick={() => { closeProposal(); setPage('media'); }}
+            className="flex items-center gap-2 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-300 transition-colors group"
+          >
+            <Images size={18} className="text-slate-400 group-hover:text-indigo-500" />
+            <span className="text-sm font-medium">Images ({mediaItems.length})</span>
+          </button>
+
+          <button
+            onClick={() => { closeProposal(); setPage('usage'); }}
+            className="flex items-center gap-2 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-300 transition-colors group"
+          >
+            <Gauge size={18} className="text-slate-400 group-hover:text-indigo-500" />
+            <span className="text-sm font-medium">Usage</span>
+          </button>
+
+          <button
+            onClick={() => { closeProposal(); setPage('settings'); }}
+            title="Prompt templates"
+            className="flex items-center gap-2 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm hover:border-indigo-300 transition-colors group"
+          >
+            <Settings size={18} className="text-slate-400 group-hover:text-indigo-500" />
+            <span className="text-sm font-medium">Templates</span>
+          </button>
+
+          {(businesses.length > 0 || pdfFiles.length > 0 || savedProposals.length > 0) && (
+            <button
+              onClick={clearWorkspace}
+              className="flex items-center gap-2 bg-white px-4 py-2 rounded-lg border border-slate-200 shadow-sm hover:border-red-300 hover:text-red-600 transition-colors group"
+            >
+              <Trash2 size={18} className="text-slate-400 group-hover:text-red-500" />
+              <span className="text-sm font-medium">Clear Workspace</span>
+            </button>
+          )}
         </div>
       </header>
 
@@ -432,17 +7206,104 @@ const App = () => {
         </div>
       )}
 
+      {usageAlert && (
+        <div className={`mb-6 px-4 py-3 rounded-xl flex items-center gap-3 no-print border ${usageAlert.over ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-800'}`}>
+          <Gauge size={20} />
+          <span className="flex-1">{usageAlert.text}</span>
+          {page !== 'usage' && (
+            <button onClick={() => { closeProposal(); setPage('usage'); }} className="text-sm font-semibold underline">
+              View usage
+            </button>
+          )}
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-12 gap-8">
-        {!selectedBusiness ? (
+        {page === 'analytics' && !selectedBusiness ? (
+          <div className="lg:col-span-12 no-print">
+            <PortfolioAnalytics
+              businesses={businesses}
+              onOpen={(biz) => { setPage('dashboard'); openBusiness(biz); }}
+              onClose={() => setPage('dashboard')}
+            />
+          </div>
+        ) : page === 'catalog' && !selectedBusiness ? (
+          <div className="lg:col-span-12 no-print">
+            <ProgramCatalog
+              programs={programCatalog}
+              pdfs={pdfFiles}
+              extracting={extractingCatalog}
+              fiscalYear={activeTemplate(promptSettings).fiscalYear}
+              onChange={updateCatalog}
+              onExtract={reextractCatalog}
+              onClose={() => setPage('dashboard')}
+            />
+          </div>
+        ) : page === 'inventory' && !selectedBusiness ? (
+          <div className="lg:col-span-12 no-print">
+            <InventoryDashboard
+              programs={programCatalog}
+              claims={slotClaims}
+              businessNames={businesses.map(b => b.businessName)}
+              onStatusChange={setClaimStatus}
+              onRemove={(id) => setSlotClaims(prev => prev.filter(c => c.id !== id))}
+              onAdd={addClaim}
+              onClose={() => setPage('dashboard')}
+            />
+          </div>
+        ) : page === 'media' && !selectedBusiness ? (
+          <div className="lg:col-span-12 no-print space-y-6">
+            <div>
+              <button onClick={() => setPage('dashboard')} className="flex items-center gap-2 text-slate-500 hover:text-slate-800 transition-colors font-medium mb-3">
+                <ArrowLeft size={20} />
+                Back to Dashboard
+              </button>
+              <h2 className="text-2xl font-bold text-slate-900 flex items-center gap-2">
+                <Images className="text-indigo-600" />
+                Image Library
+              </h2>
+              <p className="text-sm text-slate-500 mt-1">
+                Proposal boxes use a library image whose tags match the program before generating a new one.
+              </p>
+            </div>
+            <MediaLibrary items={mediaItems} onSave={updateMediaItem} onRemove={removeMediaItem} />
+          </div>
+        ) : page === 'usage' && !selectedBusiness ? (
+          <div className="lg:col-span-12 no-print">
+            <UsageDashboard settings={usageSettings} onSettingsChange={setUsageSettings} onClose={() => setPage('dashboard')} />
+          </div>
+        ) : page === 'settings' && !selectedBusiness ? (
+          <div className="lg:col-span-12 no-print">
+            <PromptSettingsPanel
+              settings={promptSettings}
+              businesses={businesses}
+              catalog={programCatalog}
+              catalogFor={(businessName) => availableCatalog(programCatalog, slotClaims, businessName)}
+              memberFor={(businessName) => memberProfiles[businessName] || null}
+              budgetRules={budgetRules}
+              onChange={setPromptSettings}
+              onClose={() => setPage('dashboard')}
+            />
+            <div className="mt-6">
+              <OrganizationProfilePanel profile={organizationProfile} onChange={setOrganizationProfile} />
+            </div>
+            <div className="mt-6">
+              <BudgetRulesPanel rules={budgetRules} businesses={businesses} onChange={setBudgetRules} />
+            </div>
+            <div className="mt-6">
+              <BusinessAliasesPanel aliases={businessAliases} onChange={setBusinessAliases} />
+            </div>
+          </div>
+        ) : !selectedBusiness ? (
           <div className="lg:col-span-12 no-print">
-            {businesses.length === 0 ? (
+            {!hydrated ? null : businesses.length === 0 ? (
               <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-20 flex flex-col items-center justify-center text-center">
                 <div className="bg-slate-100 p-6 rounded-full mb-6">
                   <Upload size={48} className="text-slate-400" />
                 </div>
                 <h2 className="text-xl font-semibold mb-2">Start by uploading your data</h2>
                 <p className="text-slate-500 max-w-md mb-8">
-                  Upload the 2025 cumulative spending CSV to see your business directory and begin generating proposals.
+                  Upload a yearly spending CSV or Excel workbook to see your business directory and begin generating proposals. Add earlier years afterwards to see each member's trend.
                 </p>
                 <button 
                   onClick={loadDemoCase}
@@ -466,29 +7327,169 @@ const App = () => {
                   <div className="text-sm text-slate-400 font-medium">
                     {filteredBusinesses.length} Organizations Found
                   </div>
+                  {promptSettings.templates.length > 1 && (
+                    <select
+                      value={activeTemplate(promptSettings).id}
+                      onChange={(e) => setPromptSettings(prev => ({ ...prev, activeTemplateId: e.target.value }))}
+                      title="Prompt template for new proposals"
+                      className="bg-white border border-slate-200 rounded-lg px-2 py-2 text-sm font-semibold text-slate-600 outline-none max-w-[12rem]"
+                    >
+                      {promptSettings.templates.map(t => <option key={t.id} value={t.id}>{t.name || 'Untitled'}</option>)}
+                    </select>
+                  )}
+                  <button
+                    onClick={() => { setBatchMode(prev => !prev); setBatchSelection(new Set()); }}
+                    className={`flex items-center gap-2 px-4 py-2 rounded-lg border text-sm font-semibold transition-colors ${batchMode ? 'bg-indigo-600 text-white border-indigo-600' : 'bg-white text-slate-600 border-slate-200 hover:border-indigo-300'}`}
+                  >
+                    <Layers size={16} />
+                    Batch
+                  </button>
+                  <button
+                    onClick={exportProposals}
+                    disabled={exporting || savedProposals.length === 0}
+                    title={batchSelection.size > 0 ? 'Export the selected businesses' : 'Export every shown business with a saved proposal'}
+                    className="flex items-center gap-2 px-4 py-2 rounded-lg border text-sm font-semibold bg-white text-slate-600 border-slate-200 hover:border-indigo-300 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {exporting ? <Loader2 size={16} className="animate-spin" /> : <Archive size={16} />}
+                    Export ZIP
+                  </button>
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
-                  {filteredBusinesses.map((biz) => (
+                <DirectoryFilters
+                  filter={directoryFilter}
+                  programs={directoryPrograms}
+                  segments={segments}
+                  activeSegmentId={activeSegmentId}
+                  shownCount={filteredBusinesses.length}
+                  onChange={changeDirectoryFilter}
+                  onSaveSegment={saveSegment}
+                  onApplySegment={applySegment}
+                  onDeleteSegment={(id) => {
+                    setSegments(prev => prev.filter(seg => seg.id !== id));
+                    if (id === activeSegmentId) setActiveSegmentId(null);
+                  }}
+                  onSelectForBatch={selectShownForBatch}
+                />
+
+                {batchMode && (
+                  <div className="flex flex-wrap items-center gap-4 bg-indigo-50/60 p-4 rounded-2xl border border-indigo-100 text-sm">
+                    <button
+                      onClick={() => setBatchSelection(new Set(filteredBusinesses.map(b => b.businessName)))}
+                      className="font-semibold text-indigo-700 hover:text-indigo-900"
+                    >
+                      Select All Shown
+                    </button>
+                    <button onClick={() => setBatchSelection(new Set())} className="font-semibold text-slate-500 hover:text-slate-800">
+                      Clear
+                    </button>
+                    <div className="flex items-center gap-2">
+                      <span className="text-slate-500">Spend at least</span>
+                      <input
+                        type="text"
+                        inputMode="numeric"
+                        placeholder="$5,000"
+                        value={batchMinSpend}
+                        onChange={(e) => setBatchMinSpend(e.target.value)}
+                        className="w-24 bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none focus:border-indigo-300"
+                      />
+                      <button onClick={selectAboveThreshold} className="font-semibold text-indigo-700 hover:text-indigo-900">
+                        Select
+                      </button>
+                    </div>
+                    <label className="flex items-center gap-2 text-slate-600">
+                      <input type="checkbox" checked={batchSkipExisting} onChange={(e) => setBatchSkipExisting(e.target.checked)} />
+                      Skip members with saved proposals
+                    </label>
+                    <label className="flex items-center gap-2 text-slate-600">
+                      Run at once
+                      <select
+                        value={batchConcurrency}
+                        onChange={(e) => setBatchConcurrency(Number(e.target.value))}
+                        className="bg-white border border-slate-200 rounded-lg px-2 py-1 outline-none"
+                      >
+                        {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+                      </select>
+                    </label>
+                    <div className="flex-1" />
                     <button
-                      key={biz.businessName}
-                      onClick={() => generateProposal(biz)}
-                      className="group bg-white p-6 rounded-2xl shadow-sm border border-slate-200 text-left hover:border-indigo-300 hover:shadow-md transition-all flex flex-col justify-between"
+                      onClick={queueBatch}
+                      disabled={batchSelection.size === 0}
+                      className="bg-indigo-600 text-white px-5 py-2 rounded-xl font-semibold shadow-lg shadow-indigo-200 hover:bg-indigo-700 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                     >
-                      <div>
-                        <div className="flex items-center justify-between mb-4">
-                          <div className="bg-slate-50 p-3 rounded-xl text-slate-400 group-hover:text-indigo-500 group-hover:bg-indigo-50 transition-colors">
-                            <Building2 size={24} />
+                      Generate {batchSelection.size} Proposals
+                    </button>
+                  </div>
+                )}
+
+                {batchJobs.length > 0 && (
+                  <BatchPanel
+                    jobs={batchJobs}
+                    onRetry={(name) => updateBatchJob(name, { status: 'queued', error: undefined })}
+                    onOpen={(name) => {
+                      const biz = businesses.find(b => b.businessName === name);
+                      if (biz) openBusiness(biz);
+                    }}
+                    onRetryFailed={() => setBatchJobs(prev => prev.map(j => (j.status === 'failed' ? { ...j, status: 'queued', error: undefined } : j)))}
+                    onCancelQueued={() => setBatchJobs(prev => prev.filter(j => j.status !== 'queued'))}
+                    onClearFinished={() => setBatchJobs(prev => prev.filter(j => j.status === 'queued' || j.status === 'running'))}
+                  />
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-6">
+                  {filteredBusinesses.map((biz) => {
+                    const selected = batchSelection.has(biz.businessName);
+                    const job = batchJobs.find(j => j.businessName === biz.businessName);
+                    return (
+                      <button
+                        key={biz.businessName}
+                        onClick={() => (batchMode ? toggleBatchSelection(biz.businessName) : openBusiness(biz))}
+                        className={`group bg-white p-6 rounded-2xl shadow-sm border text-left hover:border-indigo-300 hover:shadow-md transition-all flex flex-col justify-between ${selected ? 'border-indigo-400 ring-2 ring-indigo-100' : 'border-slate-200'}`}
+                      >
+                        <div>
+                          <div className="flex items-center justify-between mb-4">
+                            {memberProfiles[biz.businessName]?.logoDataUrl ? (
+                              <div className="h-12 w-12 rounded-xl border border-slate-100 flex items-center justify-center overflow-hidden bg-white">
+                                <img src={memberProfiles[biz.businessName].logoDataUrl} alt="" className="max-h-10 max-w-10 object-contain" />
+                              </div>
+                            ) : (
+                              <div className="bg-slate-50 p-3 rounded-xl text-slate-400 group-hover:text-indigo-500 group-hover:bg-indigo-50 transition-colors">
+                                <Building2 size={24} />
+                              </div>
+                            )}
+                            {batchMode ? (
+                              selected ? <CheckSquare size={20} className="text-indigo-600" /> : <Square size={20} className="text-slate-300" />
+                            ) : (
+                              <ChevronRight size={20} className="text-slate-300 group-hover:translate-x-1 group-hover:text-indigo-400 transition-all" />
+                            )}
                           </div>
-                          <ChevronRight size={20} className="text-slate-300 group-hover:translate-x-1 group-hover:text-indigo-400 transition-all" />
+                          <h3 className="font-bold text-lg text-slate-800 line-clamp-1">{biz.businessName}</h3>
+                          {memberProfiles[biz.businessName]?.industry && (
+                            <p className="text-xs text-slate-400 mt-0.5 line-clamp-1">{memberProfiles[biz.businessName].industry}</p>
+                          )}
+                          <p className="text-slate-500 text-sm mt-1">
+                            {spendYear(biz)} Total: <span className="font-semibold text-slate-700">{formatCurrency(biz.totalSpend)}</span>
+                          </p>
+                          <SpendTrendSummary business={biz} />
+                          {job && (job.status === 'queued' || job.status === 'running') ? (
+                            <p className="text-xs font-semibold text-indigo-600 mt-3 flex items-center gap-1">
+                              {job.status === 'running' ? <Loader2 size={14} className="animate-spin" /> : <Clock size={14} />}
+                              {job.status === 'running' ? 'Generating...' : 'Queued'}
+                            </p>
+                          ) : versionCounts[biz.businessName] > 0 ? (
+                            <p className="text-xs font-semibold text-emerald-600 mt-3 flex items-center gap-1">
+                              <CheckCircle2 size={14} />
+                              {versionCounts[biz.businessName] === 1 ? 'Proposal saved' : `${versionCounts[biz.businessName]} proposal versions`}
+                            </p>
+                          ) : job?.status === 'failed' ? (
+                            <p className="text-xs font-semibold text-red-600 mt-3 flex items-center gap-1">
+                              <XCircle size={14} />
+                              Batch generation failed
+                            </p>
+                          ) : null}
                         </div>
-                        <h3 className="font-bold text-lg text-slate-800 line-clamp-1">{biz.businessName}</h3>
-                        <p className="text-slate-500 text-sm mt-1">
-                          2025 Total: <span className="font-semibold text-slate-700">{formatCurrency(biz.totalSpend)}</span>
-                        </p>
-                      </div>
-                    </button>
-                  ))}
+                      </button>
+                    );
+                  })}
                 </div>
               </div>
             )}
@@ -497,13 +7498,47 @@ const App = () => {
           <div className="lg:col-span-12">
             <div className="flex items-center justify-between mb-8 no-print">
               <button 
-                onClick={() => { setSelectedBusiness(null); setProposal(null); }}
+                onClick={closeProposal}
                 className="flex items-center gap-2 text-slate-500 hover:text-slate-800 transition-colors font-medium"
               >
                 <ArrowLeft size={20} />
                 Back to Dashboard
               </button>
               <div className="flex gap-3">
+                <button
+                  onClick={() => setMemberProfileOpen(prev => !prev)}
+                  className={`px-5 py-2.5 rounded-xl font-semibold border transition-all flex items-center gap-2 ${memberProfileOpen ? 'bg-indigo-50 text-indigo-700 border-indigo-200' : 'bg-white text-slate-700 border-slate-200 hover:border-indigo-300 hover:text-indigo-700'}`}
+                >
+                  <UserRound size={18} />
+                  Member Profile
+                </button>
+                {proposal && !generating && !compareIds && (
+                  <button
+                    onClick={() => setEditing(prev => !prev)}
+                    className={`px-5 py-2.5 rounded-xl font-semibold border transition-all flex items-center gap-2 ${editing ? 'bg-emerald-600 text-white border-emerald-600 hover:bg-emerald-700' : 'bg-white text-slate-700 border-slate-200 hover:border-indigo-300 hover:text-indigo-700'}`}
+                  >
+                    {editing ? <Check size={18} /> : <Pencil size={18} />}
+                    {editing ? 'Done Editing' : 'Edit'}
+                  </button>
+                )}
+                <button
+                  onClick={() => generateProposal(selectedBusiness)}
+                  disabled={loading}
+                  className="bg-white text-slate-700 px-5 py-2.5 rounded-xl font-semibold border border-slate-200 hover:border-indigo-300 hover:text-indigo-700 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  {versions.length ? <RefreshCw size={18} /> : <Sparkles size={18} />}
+                  {versions.length ? 'Regenerate' : 'Generate'}
+                </button>
+                {proposal && !loading && !compareIds && (
+                  <button
+                    onClick={downloadDocx}
+                    disabled={docxLoading}
+                    className="bg-white text-slate-700 px-5 py-2.5 rounded-xl font-semibold border border-slate-200 hover:border-indigo-300 hover:text-indigo-700 transition-all flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+                  >
+                    {docxLoading ? <Loader2 size={18} className="animate-spin" /> : <FileText size={18} />}
+                    Download Word
+                  </button>
+                )}
                 <button 
                   onClick={() => window.print()}
                   className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-semibold shadow-lg shadow-indigo-200 hover:bg-indigo-700 transition-all flex items-center gap-2"
@@ -514,173 +7549,237 @@ const App = () => {
               </div>
             </div>
 
-            {loading ? (
+            {memberProfileOpen && (
+              <MemberProfilePanel
+                businessName={selectedBusiness.businessName}
+                member={memberProfiles[selectedBusiness.businessName] || null}
+                industries={memberIndustries}
+                onChange={(member) => setMemberProfiles(prev => ({ ...prev, [selectedBusiness.businessName]: member }))}
+                onClose={() => setMemberProfileOpen(false)}
+              />
+            )}
+
+            {!loading && versions.length > 0 && activeVersionIdx !== -1 && (
+              <div className="flex flex-wrap items-center gap-3 mb-6 no-print bg-white p-3 rounded-2xl border border-slate-200 shadow-sm">
+                <History size={18} className="text-slate-400 ml-1" />
+                <select
+                  value={activeProposalId || ''}
+                  onChange={(e) => selectVersion(e.target.value)}
+                  className="bg-transparent text-sm font-semibold text-slate-700 outline-none"
+                >
+                  {versions.map((v, idx) => ({ v, idx })).reverse().map(({ v, idx }) => (
+                    <option key={v.id} value={v.id}>
+                      Version {idx + 1} · {formatTimestamp(v.createdAt)}
+                      {idx === versions.length - 1 ? ' (latest)' : ''}
+                    </option>
+                  ))}
+                </select>
+                {versions[activeVersionIdx].edited && (
+                  <span className="text-[10px] font-black text-amber-700 bg-amber-50 border border-amber-100 px-2 py-0.5 rounded uppercase tracking-wider">
+                    Edited
+                  </span>
+                )}
+                {versions[activeVersionIdx].restoredFrom && (
+                  <span className="text-xs text-slate-400">
+                    Restored from Version {versions.findIndex(v => v.id === versions[activeVersionIdx].restoredFrom) + 1}
+                  </span>
+                )}
+                {promptSettings.templates.some(t => t.id === versions[activeVersionIdx].templateId) && (
+                  <span className="text-xs text-slate-400">
+                    Template: {promptSettings.templates.find(t => t.id === versions[activeVersionIdx].templateId)?.name}
+                  </span>
+                )}
+                {proposal?.usage && (
+                  <span className="text-xs text-slate-400 flex items-center gap-1" title={proposal.usage.models.join(', ')}>
+                    <Receipt size={14} />
+                    {describeUsage(proposal.usage)}
+                  </span>
+                )}
+                <div className="flex-1" />
+                {versions[activeVersionIdx].edited && (
+                  <button
+                    onClick={() => discardEdits(versions[activeVersionIdx].id)}
+                    className="flex items-center gap-2 text-sm font-semibold text-slate-600 hover:text-red-600 px-3 py-1.5 rounded-lg hover:bg-red-50 transition-colors"
+                  >
+                    <Undo2 size={16} />
+                    Discard Edits
+                  </button>
+                )}
+                {activeVersionIdx !== versions.length - 1 && (
+                  <button
+                    onClick={() => restoreVersion(versions[activeVersionIdx].id)}
+                    className="flex items-center gap-2 text-sm font-semibold text-indigo-600 hover:text-indigo-800 px-3 py-1.5 rounded-lg hover:bg-indigo-50 transition-colors"
+                  >
+                    <RotateCcw size={16} />
+                    Restore This Version
+                  </button>
+                )}
+                {versions.length > 1 && (
+                  <button
+                    onClick={() => setCompareIds({
+                      before: versions[activeVersionIdx > 0 ? activeVersionIdx - 1 : 0].id,
+                      after: versions[activeVersionIdx > 0 ? activeVersionIdx : 1].id
+                    })}
+                    className="flex items-center gap-2 text-sm font-semibold text-slate-600 hover:text-slate-900 px-3 py-1.5 rounded-lg hover:bg-slate-50 transition-colors"
+                  >
+                    <GitCompare size={16} />
+                    Compare
+                  </button>
+                )}
+              </div>
+            )}
+
+            {!loading && !compareIds && businessClaims.length > 0 && (
+              <div className="flex flex-wrap items-center gap-3 mb-6 no-print bg-white p-3 rounded-2xl border border-slate-200 shadow-sm text-sm">
+                <Ticket size={18} className="text-slate-400 ml-1" />
+                {businessClaims.map(claim => (
+                  <div key={claim.id} className="flex items-center gap-2 bg-slate-50 border border-slate-100 rounded-xl pl-3 pr-1 py-1">
+                    <span className="font-semibold text-slate-700">
+                      {programCatalog.find(p => p.id === claim.programId)?.name} · {claim.tierName}
+                    </span>
+                    <ClaimStatusSelect claim={claim} onChange={(status) => setClaimStatus(claim.id, status)} />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {compareIds && !loading ? (
+              <ProposalDiff
+                versions={versions}
+                beforeId={compareIds.before}
+                afterId={compareIds.after}
+                onSelect={(side, id) => setCompareIds(prev => (prev ? { ...prev, [side]: id } : prev))}
+                onClose={() => setCompareIds(null)}
+              />
+            ) : loading && !proposal ? (
               <div className="bg-white rounded-3xl p-20 flex flex-col items-center justify-center text-center proposal-shadow">
                 <div className="relative mb-8">
                   <div className="w-20 h-20 border-4 border-indigo-100 border-t-indigo-500 rounded-full animate-spin"></div>
                   <Sparkles className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 text-indigo-500" />
                 </div>
-                <h2 className="text-2xl font-bold text-slate-800 mb-2">
-                  {visualLoading ? "Generating Contextual Visuals..." : "Synthesizing Strategic Proposal..."}
-                </h2>
-                <p className="text-slate-500 max-w-md italic">
-                  {visualLoading ? "Drafting custom imagery for each partnership box." : "Analyzing 2025 performance data and matching with 2026 programming."}
-                </p>
+                <h2 className="text-2xl font-bold text-slate-800 mb-2">Synthesizing Strategic Proposal...</h2>
+                <p className="text-slate-500 max-w-md italic">Analyzing spend history and matching with {activeTemplate(promptSettings).fiscalYear} programming.</p>
               </div>
             ) : proposal ? (
-              <div className="bg-white proposal-shadow rounded-none md:rounded-3xl min-h-[11in] w-full p-8 md:p-16 text-slate-800 border border-slate-200 print:border-0">
-                <div className="flex flex-col md:flex-row justify-between items-start border-b border-slate-100 pb-10 mb-10 gap-6">
-                  <div>
-                    <div className="text-indigo-600 font-bold tracking-tighter text-xl mb-4">2026 STRATEGIC PARTNERSHIP PROPOSAL</div>
-                    <h1 className="text-4xl md:text-5xl font-black text-slate-900 leading-tight mb-2">
-                      {selectedBusiness.businessName}
-                    </h1>
-                    <p className="text-slate-400 font-medium">Prepared for 2026 Fiscal Planning Cycle</p>
-                  </div>
-                  <div className="bg-slate-50 p-6 rounded-2xl border border-slate-100 min-w-[200px]">
-                    <div className="text-xs font-bold text-slate-400 uppercase tracking-widest mb-1">2025 Total Value</div>
-                    <div className="text-3xl font-black text-indigo-600">{formatCurrency(selectedBusiness.totalSpend)}</div>
-                  </div>
-                </div>
-
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-12 mb-12">
-                  <div className="md:col-span-2 space-y-10">
-                    <section>
-                      <h2 className="text-sm font-black text-indigo-500 uppercase tracking-[0.2em] mb-4 flex items-center gap-2">
-                        <CheckCircle2 size={16} />
-                        Executive Summary
-                      </h2>
-                      <div className="text-lg text-slate-600 leading-relaxed font-light">
-                        {proposal.summary}
-                      </div>
-                    </section>
-                    <section>
-                      <h2 className="text-sm font-black text-indigo-500 uppercase tracking-[0.2em] mb-4 flex items-center gap-2">
-                        <PieChart size={16} />
-                        Strategic Relationship Analysis
-                      </h2>
-                      <div className="text-slate-600 leading-relaxed">
-                        {proposal.analysis}
-                      </div>
-                    </section>
-                  </div>
-                  <aside className="space-y-8">
-                    <div className="bg-indigo-50/50 p-6 rounded-3xl border border-indigo-100/50">
-                      <h3 className="text-indigo-900 font-bold mb-4 text-sm">2025 Spend Allocation</h3>
-                      <div className="space-y-3">
-                        {Object.entries(selectedBusiness.products).map(([name, val]: [string, number]) => (
-                          <div key={name} className="flex justify-between items-center group">
-                            <span className="text-xs text-slate-500 font-medium group-hover:text-indigo-600 transition-colors">{name}</span>
-                            <span className="text-xs font-bold text-slate-700">{formatCurrency(val)}</span>
-                          </div>
-                        ))}
-                      </div>
-                    </div>
-                  </aside>
-                </div>
-
-                {/* 2025 Portfolio Retrospective Boxes */}
-                <section className="mt-12 mb-20">
-                  <h2 className="text-sm font-black text-indigo-500 uppercase tracking-[0.2em] mb-8 flex items-center gap-2">
-                    <History size={16} />
-                    2025 Portfolio Retrospective
-                  </h2>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
-                    {proposal.sponsorshipReviews.map((item, idx) => (
-                      <div key={idx} className="bg-white border border-slate-100 rounded-2xl shadow-sm hover:shadow-md transition-shadow overflow-hidden group">
-                        <div className="h-32 bg-slate-100 relative overflow-hidden">
-                          {item.imageUrl ? (
-                            <img src={item.imageUrl} alt={item.name} className="w-full h-full object-cover group-hover:scale-105 transition-transform duration-500" />
-                          ) : (
-                            <div className="w-full h-full flex items-center justify-center text-slate-300">
-                              <ImageIcon size={32} />
-                            </div>
-                          )}
-                          <div className="absolute top-2 right-2">
-                            <span className="text-[10px] font-black text-white bg-slate-900/50 backdrop-blur-md px-2 py-0.5 rounded">
-                              {formatCurrency(item.amount)}
-                            </span>
-                          </div>
-                        </div>
-                        <div className="p-5">
-                          <h4 className="text-xs font-bold text-slate-800 uppercase tracking-widest mb-2 truncate" title={item.name}>
-                            {item.name}
-                          </h4>
-                          <p className="text-xs text-slate-500 leading-relaxed">
-                            {item.review}
-                          </p>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </section>
-
-                {/* 2026 Strategic Recommendations */}
-                <section className="mt-16">
-                  <h2 className="text-sm font-black text-indigo-500 uppercase tracking-[0.2em] mb-8 flex items-center gap-2">
-                    <Sparkles size={16} />
-                    2026 Strategic Recommendations
-                  </h2>
-                  <div className="grid grid-cols-1 md:grid-cols-3 gap-8">
-                    {proposal.recommendations.map((rec, idx) => (
-                      <div key={idx} className="bg-slate-50 rounded-3xl border border-slate-100 flex flex-col overflow-hidden hover:bg-white hover:border-indigo-200 transition-all cursor-default group">
-                        <div className="h-48 bg-slate-200 overflow-hidden relative">
-                          {rec.imageUrl ? (
-                            <img src={rec.imageUrl} alt={rec.program} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" />
-                          ) : (
-                            <div className="w-full h-full flex items-center justify-center text-slate-400">
-                               <ImageIcon size={48} />
-                            </div>
-                          )}
-                          <div className="absolute bottom-4 left-4">
-                            <div className="bg-indigo-600 text-white text-[10px] font-black px-3 py-1 rounded-full uppercase tracking-wider shadow-lg">
-                              Priority {idx + 1}
-                            </div>
-                          </div>
-                        </div>
-                        <div className="p-8 flex flex-col justify-between flex-1">
-                          <div>
-                            <h3 className="text-xl font-bold text-slate-900 mb-3 group-hover:text-indigo-600 transition-colors leading-tight">{rec.program}</h3>
-                            <p className="text-slate-600 text-sm leading-relaxed mb-6 italic font-light">
-                              {rec.reasoning}
-                            </p>
-                          </div>
-                          <div className="pt-6 border-t border-slate-200/50 flex justify-between items-center">
-                            <span className="text-xs font-bold text-slate-400 uppercase tracking-widest">Target Allocation</span>
-                            <span className="text-lg font-black text-slate-900">{rec.suggestedInvestment}</span>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                </section>
-
-                <div className="mt-20 pt-10 border-t border-slate-100 flex flex-col md:flex-row justify-between gap-10">
-                  <div className="flex-1">
-                    <h4 className="font-bold text-slate-900 mb-2">Notes & Next Steps</h4>
-                    <div className="w-full h-32 border border-slate-200 rounded-xl p-4 text-sm text-slate-400 font-light italic no-print">
-                      Click here to add custom meeting notes...
-                    </div>
+              <>
+                {generating && (
+                  <div className="flex items-center gap-3 mb-6 no-print bg-indigo-50 border border-indigo-100 text-indigo-800 px-4 py-3 rounded-2xl text-sm">
+                    <Loader2 size={18} className="animate-spin shrink-0" />
+                    <span className="font-medium">
+                      {loading
+                        ? 'Writing the proposal. Sections appear as they are drafted.'
+                        : `Generating images: ${pendingImages} still in progress. Each box fills in as its image arrives.`}
+                    </span>
+                    <span className="ml-auto text-xs text-indigo-500">Back to Dashboard cancels.</span>
                   </div>
-                  <div className="w-64 space-y-4">
-                    <div className="border-b border-slate-900 h-10"></div>
-                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Authorized Approver</div>
-                  </div>
-                </div>
+                )}
+                <ProposalDocument
+                  business={selectedBusiness}
+                  proposal={proposal}
+                  profile={profileForProposal(organizationProfile, proposal)}
+                  member={memberProfiles[selectedBusiness.businessName]}
+                  editing={editing && !generating}
+                  onChange={updateProposal}
+                  onRegenerate={generating ? undefined : regenerateSection}
+                  onPickImage={generating ? undefined : (query, apply) => setImagePicker({ query, apply })}
+                  imageState={slot => (activeProposalId ? imageStates[`${activeProposalId}/${imageSlotKey(slot)}`] : undefined)}
+                  onRetryImage={generating ? undefined : retryImage}
+                />
+              </>
+            ) : versions.length === 0 ? (
+              <div className="bg-white border-2 border-dashed border-slate-200 rounded-3xl p-16 text-center">
+                <Sparkles size={28} className="mx-auto text-indigo-400 mb-4" />
+                <h2 className="text-xl font-bold text-slate-800 mb-2">No proposal for {selectedBusiness.businessName} yet</h2>
+                <p className="text-slate-500 max-w-md mx-auto mb-6">
+                  Fill in the member profile above first if you know more about them; generation uses it alongside their spend.
+                </p>
+                <button
+                  onClick={() => generateProposal(selectedBusiness)}
+                  className="bg-indigo-600 text-white px-6 py-2.5 rounded-xl font-semibold shadow-lg shadow-indigo-200 hover:bg-indigo-700 transition-all inline-flex items-center gap-2"
+                >
+                  <Sparkles size={18} />
+                  Generate Proposal
+                </button>
               </div>
             ) : null}
           </div>
         )}
       </div>
 
-      {businesses.length > 0 && !selectedBusiness && (
+      {businesses.length > 0 && !selectedBusiness && page === 'dashboard' && (
         <div className="fixed bottom-6 left-1/2 -translate-x-1/2 bg-slate-900 text-white px-6 py-3 rounded-full shadow-2xl flex items-center gap-6 no-print">
           <div className="flex items-center gap-2">
             <CheckCircle2 size={16} className="text-emerald-400" />
             <span className="text-xs font-medium uppercase tracking-widest">{businesses.length} Organizations Found</span>
           </div>
+          {pdfFiles.length > 0 && (
+            <div className="flex items-center gap-2">
+              <FileText size={16} className="text-indigo-300" />
+              <span className="text-xs font-medium uppercase tracking-widest">{pdfFiles.length} Program PDFs</span>
+            </div>
+          )}
+          {programCatalog.length > 0 && (
+            <div className="flex items-center gap-2">
+              <BookOpen size={16} className="text-indigo-300" />
+              <span className="text-xs font-medium uppercase tracking-widest">{programCatalog.length} Catalog Programs</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      {workbookImport && (
+        <SheetPicker
+          fileName={workbookImport.fileName}
+          workbook={workbookImport.workbook}
+          onSelect={handleSheetSelect}
+          onCancel={() => setWorkbookImport(null)}
+        />
+      )}
+
+      {pendingImport && (
+        <ColumnMapper
+          sourceName={pendingImport.sourceName}
+          table={pendingImport.table}
+          existingYears={directoryYears(businesses)}
+          onConfirm={handleMappingConfirm}
+          onCancel={() => setPendingImport(null)}
+        />
+      )}
+      {imagePicker && (
+        <div className="fixed inset-0 z-50 bg-slate-900/40 backdrop-blur-sm flex items-center justify-center p-4 no-print">
+          <div className="bg-white rounded-3xl shadow-2xl border border-slate-200 w-full max-w-5xl max-h-[90vh] flex flex-col">
+            <div className="p-6 border-b border-slate-100 flex items-center justify-between gap-4">
+              <h2 className="text-lg font-bold text-slate-900 flex items-center gap-2">
+                <Images size={20} className="text-indigo-500" />
+                Choose an image
+              </h2>
+              <button onClick={() => setImagePicker(null)} className="text-slate-400 hover:text-slate-700 transition-colors">
+                <X size={20} />
+              </button>
+            </div>
+            <div className="flex-1 overflow-y-auto p-6">
+              <MediaLibrary
+                items={mediaItems}
+                initialQuery={imagePicker.query}
+                onSelect={(item) => {
+                  imagePicker.apply(item.dataUrl);
+                  setImagePicker(null);
+                }}
+                onSave={updateMediaItem}
+                onRemove={removeMediaItem}
+              />
+            </div>
+          </div>
         </div>
       )}
+      {pendingMerge && (
+        <MergeReview
+          sourceName={pendingMerge.sourceName}
+          groups={pendingMerge.groups}
+          onConfirm={handleMergeConfirm}
+          onCancel={() => setPendingMerge(null)}
+        />
+      )}
     </div>
   );
 };
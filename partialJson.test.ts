@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+const proposal = JSON.stringify({
+  executiveSummary: 'A "premier" partnership \\ built for 2026 — with Acmeé\nand friends.',
+  sections: [
+    { title: 'Community Impact', body: 'Reach 12,000 residents.', items: [{ program: 'Gala', tier: 'Gold', price: 25000, confirmed: true }] },
+    { title: 'Visibility', body: 'Logo ✓ placement', items: [{ program: 'Expo', tier: null, price: 1500.5, confirmed: false }] }
+  ],
+  totalInvestment: -26500.5e0,
+  tags: ['health', 'education']
+}, null, 2);
+
+describe('parsePartialJson', () => {
+  it('parses every prefix of a proposal without throwing', () => {
+    for (let i = 0; i <= proposal.length; i++) {
+      const prefix = proposal.slice(0, i);
+      expect(() => parsePartialJson(prefix), `prefix of length ${i}`).not.toThrow();
+      const parsed = parsePartialJson(prefix);
+      if (i > 0) expect(parsed === undefined || typeof parsed === 'object', `prefix of length ${i}`).toBe(true);
+    }
+  });
+
+  it('returns the whole proposal once it is complete', () => {
+    expect(parsePartialJson(proposal)).toEqual(JSON.parse(proposal));
+  });
+
+  it('keeps an unfinished string value as far as it goes', () => {
+    expect(parsePartialJson('{"executiveSummary": "A premier part')).toEqual({ executiveSummary: 'A premier part' });
+  });
+
+  it('drops a dangling key and half an escape', () => {
+    expect(parsePartialJson('{"a": "x", "b')).toEqual({ a: 'x' });
+    expect(parsePartialJson('{"a": "line\\')).toEqual({ a: 'line' });
+    expect(parsePartialJson('{"a": "\\u00')).toEqual({ a: '' });
+  });
+
+  it('waits for a number to finish', () => {
+    expect(parsePartialJson('{"items": [1, 2')).toEqual({ items: [1] });
+  });
+});
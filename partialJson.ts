@@ -0,0 +1,53 @@
+// Closes whatever the model has written so far into parseable JSON. An unfinished string value is cut where it
+// stands; anything after the last complete value (a dangling key, half a number) is dropped.
+export const parsePartialJson = (text: string): unknown => {
+  const stack: { close: '}' | ']'; expectKey: boolean }[] = [];
+  const closers = () => stack.map(c => c.close).reverse().join('');
+  let safe = { at: 0, closers: '' };
+  let inString = false;
+  let stringIsKey = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    const top = stack[stack.length - 1];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') {
+        inString = false;
+        if (!stringIsKey) safe = { at: i + 1, closers: closers() };
+      }
+    } else if (ch === '"') {
+      inString = true;
+      stringIsKey = top?.close === '}' && top.expectKey;
+    } else if (ch === '{' || ch === '[') {
+      stack.push({ close: ch === '{' ? '}' : ']', expectKey: ch === '{' });
+      safe = { at: i + 1, closers: closers() };
+    } else if (ch === '}' || ch === ']') {
+      stack.pop();
+      safe = { at: i + 1, closers: closers() };
+    } else if (ch === ':' && top) {
+      top.expectKey = false;
+    } else if (ch === ',' && top) {
+      // Whatever came before the comma, number and literals included, is complete
+      safe = { at: i, closers: closers() };
+      if (top.close === '}') top.expectKey = true;
+    }
+  }
+
+  if (inString && !stringIsKey) {
+    try {
+      // Drop a half-written escape so the closing quote isn't swallowed by it
+      const cut = escaped ? text.slice(0, -1) : text.replace(/\\u[0-9a-fA-F]{0,3}$/, '');
+      return JSON.parse(cut + '"' + closers());
+    } catch {
+      // Fall back to the last complete value
+    }
+  }
+  try {
+    return JSON.parse(text.slice(0, safe.at) + safe.closers);
+  } catch {
+    return undefined;
+  }
+};
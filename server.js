@@ -0,0 +1,480 @@
+// Serves the built app and proxies Gemini calls so the API key never reaches the browser.
+//
+//   PORT                        port to listen on (3000)
+//   GEMINI_API_KEY              key used for every model call
+//   GEMINI_BASE_URL             send model calls to another Gemini-compatible endpoint, e.g. a local stub
+//   STUB_MODEL=1                answer with canned JSON and placeholder images; no key or network needed
+//   TEXT_MODEL / IMAGE_MODEL    model names (gemini-3-flash-preview / gemini-3-pro-image-preview)
+//   RATE_LIMIT_PER_MINUTE       model calls allowed per browser per minute (60); advisory, see below
+//   RATE_LIMIT_PER_IP_PER_MINUTE  ceiling shared by everyone behind one address (240); the enforced limit
+//   ACCESS_PASSWORD             require this password (any user name) over HTTP Basic auth for the app and the API
+//   MAX_REQUEST_MB              largest request body accepted; PDFs travel inline (20)
+//   MONTHLY_BUDGET              USD all users together may spend on model calls per month; the app warns as spend nears it
+//   USAGE_LOG                   also append the usage lines to this file; read back on start so reports survive restarts
+//   MODEL_PRICES                JSON overriding the USD prices below, e.g. {"gemini-3-flash-preview":{"input":0.5,"output":3}}
+import { createServer } from 'node:http';
+import { readFile, stat, appendFile } from 'node:fs/promises';
+import { existsSync } from 'node:fs';
+import { createHash, timingSafeEqual } from 'node:crypto';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GoogleGenAI } from '@google/genai';
+
+const ROOT = path.dirname(fileURLToPath(import.meta.url));
+for (const file of ['.env.local', '.env']) {
+  if (existsSync(path.join(ROOT, file))) process.loadEnvFile?.(path.join(ROOT, file));
+}
+
+const env = process.env;
+const PORT = Number(env.PORT) || 3000;
+const DIST = path.join(ROOT, 'dist');
+const TEXT_MODEL = env.TEXT_MODEL || 'gemini-3-flash-preview';
+const IMAGE_MODEL = env.IMAGE_MODEL || 'gemini-3-pro-image-preview';
+const STUB_MODEL = env.STUB_MODEL === '1' || env.STUB_MODEL === 'true';
+const USER_LIMIT = Number(env.RATE_LIMIT_PER_MINUTE) || 60;
+const IP_LIMIT = Number(env.RATE_LIMIT_PER_IP_PER_MINUTE) || 240;
+const MAX_REQUEST_BYTES = (Number(env.MAX_REQUEST_MB) || 20) * 1024 * 1024;
+const MAX_IMAGE_PROMPT = 2000;
+const RATE_WINDOW_MS = 60_000;
+const USAGE_RETENTION_MS = 400 * 24 * 60 * 60 * 1000;
+const MONTHLY_BUDGET = Number(env.MONTHLY_BUDGET) > 0 ? Number(env.MONTHLY_BUDGET) : null;
+
+// USD per million tokens; image models bill generated images as output tokens at their own rate
+const MODEL_PRICES = {
+  'gemini-3-flash-preview': { input: 0.5, output: 3 },
+  'gemini-3-pro-image-preview': { input: 2, output: 120 },
+  stub: { input: 0, output: 0 },
+  ...JSON.parse(env.MODEL_PRICES || '{}')
+};
+
+if (!STUB_MODEL && !env.GEMINI_API_KEY) {
+  console.warn('GEMINI_API_KEY is not set; model calls will fail. Set it in .env.local, or run with STUB_MODEL=1.');
+}
+
+const ai = STUB_MODEL ? null : new GoogleGenAI({
+  apiKey: env.GEMINI_API_KEY || '',
+  ...(env.GEMINI_BASE_URL ? { httpOptions: { baseUrl: env.GEMINI_BASE_URL } } : {})
+});
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// --- Access ---
+// Browsers remember Basic credentials for the origin, so the app's own fetches carry them without any client code
+const ACCESS_DIGEST = env.ACCESS_PASSWORD ? createHash('sha256').update(env.ACCESS_PASSWORD).digest() : null;
+
+const isAuthorized = (req) => {
+  if (!ACCESS_DIGEST) return true;
+  const [scheme, encoded] = String(req.headers.authorization || '').split(' ');
+  if (scheme !== 'Basic' || !encoded) return false;
+  const credentials = Buffer.from(encoded, 'base64').toString('utf8');
+  const password = credentials.slice(credentials.indexOf(':') + 1);
+  return timingSafeEqual(createHash('sha256').update(password).digest(), ACCESS_DIGEST);
+};
+
+// Refuses API calls made by other sites through a visitor's browser. Clients that send neither header
+// (curl, scripts) pass, which is why ACCESS_PASSWORD is needed on any deployment reachable by others.
+const isSameOrigin = (req) => {
+  const site = req.headers['sec-fetch-site'];
+  if (site) return site === 'same-origin' || site === 'none';
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+};
+
+// --- Rate limiting ---
+// Sliding one-minute windows, kept in memory; a restart resets everyone.
+// The per-user window is keyed on the X-Client-Id the browser picks for itself, so it only keeps honest
+// clients from hogging the quota; anyone can send a fresh id. The per-address window is the one that holds.
+const callLog = new Map();
+
+const recentCalls = (key, now) => {
+  const calls = (callLog.get(key) || []).filter(time => now - time < RATE_WINDOW_MS);
+  callLog.set(key, calls);
+  return calls;
+};
+
+// Returns the seconds to wait when either the user's or the address's window is full
+const checkRateLimit = (user, ip) => {
+  const now = Date.now();
+  const userCalls = recentCalls(`user:${user}`, now);
+  const ipCalls = recentCalls(`ip:${ip}`, now);
+  const full = [[userCalls, USER_LIMIT], [ipCalls, IP_LIMIT]].find(([calls, limit]) => calls.length >= limit);
+  if (full) return Math.max(1, Math.ceil((full[0][0] + RATE_WINDOW_MS - now) / 1000));
+  userCalls.push(now);
+  ipCalls.push(now);
+  return 0;
+};
+
+setInterval(() => {
+  const now = Date.now();
+  for (const key of callLog.keys()) {
+    if (!recentCalls(key, now).length) callLog.delete(key);
+  }
+}, RATE_WINDOW_MS).unref();
+
+// --- Usage log ---
+// Every model call, kept in memory for the usage report; rate-limited and invalid requests never reached the model,
+// are logged without one and are left out
+const usageRecords = [];
+
+if (env.USAGE_LOG && existsSync(env.USAGE_LOG)) {
+  const cutoff = Date.now() - USAGE_RETENTION_MS;
+  for (const line of (await readFile(env.USAGE_LOG, 'utf8')).split('\n')) {
+    try {
+      const record = JSON.parse(line);
+      if (record.model && Date.parse(record.time) > cutoff) usageRecords.push(record);
+    } catch {
+      // A partly written last line is skipped
+    }
+  }
+}
+
+setInterval(() => {
+  const cutoff = Date.now() - USAGE_RETENTION_MS;
+  // Records are appended in time order, so the expired ones are all at the front
+  const expired = usageRecords.findIndex(r => Date.parse(r.time) > cutoff);
+  usageRecords.splice(0, expired === -1 ? usageRecords.length : expired);
+}, 24 * 60 * 60 * 1000).unref();
+
+const logUsage = (entry) => {
+  const record = { time: new Date().toISOString(), ...entry };
+  const line = JSON.stringify(record);
+  console.log(line);
+  if (record.model) usageRecords.push(record);
+  if (env.USAGE_LOG) appendFile(env.USAGE_LOG, line + '\n').catch(err => console.error('Could not write the usage log:', err.message));
+};
+
+const callCost = (model, promptTokens, outputTokens) => {
+  const price = MODEL_PRICES[model];
+  if (!price) return null;
+  return (promptTokens * price.input + outputTokens * price.output) / 1_000_000;
+};
+
+const tokenUsage = (model, response, images = 0) => {
+  const usage = response?.usageMetadata;
+  const promptTokens = usage?.promptTokenCount ?? 0;
+  const outputTokens = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+  return { model, promptTokens, outputTokens, images, cost: callCost(model, promptTokens, outputTokens) };
+};
+
+const emptyTotals = () => ({ calls: 0, failures: 0, promptTokens: 0, outputTokens: 0, images: 0, cost: 0 });
+
+const addToTotals = (totals, record) => {
+  totals.calls += 1;
+  if (record.status !== 200) totals.failures += 1;
+  totals.promptTokens += record.promptTokens || 0;
+  totals.outputTokens += record.outputTokens || 0;
+  totals.images += record.images || 0;
+  totals.cost += record.cost || 0;
+};
+
+// Totals for one calendar month (UTC), by day and by user, newest day first
+const usageReport = (month) => {
+  const totals = emptyTotals();
+  const days = new Map();
+  const users = new Map();
+  usageRecords.filter(r => r.time.startsWith(month)).forEach(record => {
+    const day = record.time.slice(0, 10);
+    if (!days.has(day)) days.set(day, { day, ...emptyTotals() });
+    if (!users.has(record.user)) users.set(record.user, { user: record.user, name: '', ...emptyTotals() });
+    const user = users.get(record.user);
+    if (record.name) user.name = record.name;
+    addToTotals(totals, record);
+    addToTotals(days.get(day), record);
+    addToTotals(user, record);
+  });
+  return {
+    month,
+    totals,
+    days: Array.from(days.values()).sort((a, b) => b.day.localeCompare(a.day)),
+    users: Array.from(users.values()).sort((a, b) => b.cost - a.cost),
+    budget: MONTHLY_BUDGET
+  };
+};
+
+// --- Stub model ---
+// Produces JSON in the shape of the requested schema so the whole flow can be exercised offline
+const stubValue = (schema = {}, key = '') => {
+  if (schema.enum?.length) return schema.enum[0];
+  switch (String(schema.type || '').toUpperCase()) {
+    case 'OBJECT':
+      return Object.fromEntries(Object.entries(schema.properties || {}).map(([name, child]) => [name, stubValue(child, name)]));
+    case 'ARRAY':
+      return Array.from({ length: 3 }, (_, i) => stubValue(schema.items, `${key} ${i + 1}`));
+    case 'NUMBER':
+    case 'INTEGER':
+      return 1000;
+    case 'BOOLEAN':
+      return true;
+    default:
+      return /investment|price|amount/i.test(key) ? '$1,000' : `Stub ${key}`.trim();
+  }
+};
+
+const stubImage = (prompt) => {
+  const label = prompt.slice(0, 60).replace(/[<>&"]/g, '');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="1280" height="720"><rect width="100%" height="100%" fill="#e2e8f0"/><text x="50%" y="50%" text-anchor="middle" font-family="sans-serif" font-size="36" fill="#475569">${label}</text></svg>`;
+  return `data:image/svg+xml;base64,${Buffer.from(svg).toString('base64')}`;
+};
+
+// --- API ---
+const readJson = (req) => new Promise((resolve, reject) => {
+  if (Number(req.headers['content-length']) > MAX_REQUEST_BYTES) {
+    reject(new HttpError(413, `Requests are limited to ${Math.round(MAX_REQUEST_BYTES / 1024 / 1024)} MB.`));
+    return;
+  }
+  const chunks = [];
+  let size = 0;
+  req.on('data', chunk => {
+    size += chunk.length;
+    // Keep draining without buffering so the 413 can still be sent on the open connection
+    if (size > MAX_REQUEST_BYTES) {
+      chunks.length = 0;
+      reject(new HttpError(413, `Requests are limited to ${Math.round(MAX_REQUEST_BYTES / 1024 / 1024)} MB.`));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    if (size > MAX_REQUEST_BYTES) return;
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}'));
+    } catch {
+      reject(new HttpError(400, 'The request body was not valid JSON.'));
+    }
+  });
+  req.on('error', reject);
+});
+
+// Only plain text and inline PDFs are forwarded; anything else in a request is dropped
+const cleanParts = (parts) => {
+  if (!Array.isArray(parts) || !parts.length) throw new HttpError(400, 'The request has no content.');
+  return parts.flatMap(part => {
+    if (typeof part?.text === 'string') return [{ text: part.text }];
+    const data = part?.inlineData;
+    if (data?.mimeType === 'application/pdf' && typeof data.data === 'string') return [{ inlineData: { mimeType: data.mimeType, data: data.data } }];
+    return [];
+  });
+};
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+const textRequest = (body, signal) => {
+  const parts = cleanParts(body.parts);
+  if (!body.responseSchema || typeof body.responseSchema !== 'object') throw new HttpError(400, 'The request has no response schema.');
+  return {
+    model: TEXT_MODEL,
+    contents: [{ parts }],
+    config: { responseMimeType: 'application/json', responseSchema: body.responseSchema, abortSignal: signal }
+  };
+};
+
+const handleProposal = async (body, { signal }) => {
+  const request = textRequest(body, signal);
+  if (STUB_MODEL) return { text: JSON.stringify(stubValue(body.responseSchema)), usage: tokenUsage('stub') };
+
+  const response = await ai.models.generateContent(request);
+  return { text: response.text || '', usage: tokenUsage(TEXT_MODEL, response) };
+};
+
+// Sends the JSON as it is written, one {"text"} line per chunk; the usage arrives on the last line
+const handleProposalStream = async (body, { signal, write }) => {
+  const request = textRequest(body, signal);
+  if (STUB_MODEL) {
+    // Dribbled out slowly so streaming can be watched offline
+    const text = JSON.stringify(stubValue(body.responseSchema));
+    for (let i = 0; i < text.length && !signal.aborted; i += 40) {
+      write({ text: text.slice(i, i + 40) });
+      await sleep(50);
+    }
+    return { usage: tokenUsage('stub') };
+  }
+
+  let last = null;
+  for await (const chunk of await ai.models.generateContentStream(request)) {
+    if (chunk.text) write({ text: chunk.text });
+    last = chunk;
+  }
+  return { usage: tokenUsage(TEXT_MODEL, last) };
+};
+
+const handleImage = async (body, { signal }) => {
+  const prompt = typeof body.prompt === 'string' ? body.prompt.trim() : '';
+  if (!prompt) throw new HttpError(400, 'The request has no image prompt.');
+  if (prompt.length > MAX_IMAGE_PROMPT) throw new HttpError(413, `Image prompts are limited to ${MAX_IMAGE_PROMPT} characters.`);
+  if (STUB_MODEL) return { dataUrl: stubImage(prompt), usage: tokenUsage('stub', null, 1) };
+
+  const response = await ai.models.generateContent({
+    model: IMAGE_MODEL,
+    contents: { parts: [{ text: prompt }] },
+    config: { imageConfig: { aspectRatio: '16:9' }, abortSignal: signal }
+  });
+  const part = response.candidates?.[0]?.content?.parts?.find(p => p.inlineData);
+  return {
+    dataUrl: part?.inlineData ? `data:${part.inlineData.mimeType || 'image/png'};base64,${part.inlineData.data}` : null,
+    usage: tokenUsage(IMAGE_MODEL, response, part?.inlineData ? 1 : 0)
+  };
+};
+
+const API_ROUTES = {
+  '/api/proposal': { model: TEXT_MODEL, handle: handleProposal },
+  '/api/proposal/stream': { model: TEXT_MODEL, handle: handleProposalStream, stream: true },
+  '/api/image': { model: IMAGE_MODEL, handle: handleImage }
+};
+
+const sendJson = (res, status, data, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers });
+  res.end(JSON.stringify(data));
+};
+
+// Gemini errors carry their HTTP status; a quota error upstream should reach the browser as a 429 so it backs off
+const upstreamStatus = (err) => {
+  const status = Number(err?.status);
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota/i.test(err?.message || '')) return 429;
+  return status >= 400 && status < 500 ? 400 : 502;
+};
+
+const handleApi = async (req, res, route) => {
+  const started = Date.now();
+  const ip = req.socket.remoteAddress || 'unknown';
+  const clientId = String(req.headers['x-client-id'] || '').replace(/[^\w-]/g, '').slice(0, 64);
+  const user = clientId || ip;
+  // Names are sent URI-encoded since header values can't carry arbitrary Unicode
+  let name = '';
+  try {
+    name = decodeURIComponent(String(req.headers['x-client-name'] || '')).trim().slice(0, 80);
+  } catch {
+    // An undecodable name is left blank
+  }
+  const model = STUB_MODEL ? 'stub' : API_ROUTES[route].model;
+  const entry = { user, name, ip, endpoint: route, bytesIn: Number(req.headers['content-length']) || 0 };
+
+  if (req.method !== 'POST') {
+    sendJson(res, 405, { error: 'Use POST.' }, { Allow: 'POST' });
+    return;
+  }
+  const wait = checkRateLimit(user, ip);
+  if (wait) {
+    logUsage({ ...entry, status: 429, ms: Date.now() - started, limited: true });
+    sendJson(res, 429, { error: `Rate limit reached; try again in ${wait}s.` }, { 'Retry-After': String(wait) });
+    return;
+  }
+
+  // A browser that cancels or navigates away stops the model call too
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  // Streamed responses commit to a 200 on their first line; errors before that still get a proper status
+  let streaming = false;
+  const write = (data) => {
+    if (!streaming) res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+    streaming = true;
+    res.write(JSON.stringify(data) + '\n');
+  };
+
+  try {
+    const body = await readJson(req);
+    const result = await API_ROUTES[route].handle(body, { signal: controller.signal, write });
+    const ms = Date.now() - started;
+    if (controller.signal.aborted) {
+      // The model finished before the cancel reached it, so the call was billed all the same
+      logUsage({ ...entry, status: 499, ms, ...result.usage, error: 'Cancelled by the client.' });
+      return;
+    }
+    logUsage({ ...entry, status: 200, ms, ...result.usage });
+    if (API_ROUTES[route].stream) {
+      write({ usage: { ...result.usage, ms } });
+      res.end();
+    } else {
+      sendJson(res, 200, { ...result, usage: { ...result.usage, ms } });
+    }
+  } catch (err) {
+    const cancelled = controller.signal.aborted;
+    const status = cancelled ? 499 : err instanceof HttpError ? err.status : upstreamStatus(err);
+    // HttpErrors are raised while checking the request, before any model call
+    const rejected = err instanceof HttpError;
+    logUsage({ ...entry, ...(rejected ? {} : { model }), status, ms: Date.now() - started, error: cancelled ? 'Cancelled by the client.' : err?.message });
+    if (cancelled) return;
+    if (!(err instanceof HttpError)) console.error(`${route} failed:`, err);
+    const message = err instanceof HttpError ? err.message : `The model call failed: ${err?.message || 'unknown error'}`;
+    if (streaming) res.end(JSON.stringify({ error: message, status }) + '\n');
+    else sendJson(res, status, { error: message });
+  }
+};
+
+// --- Static files ---
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2'
+};
+
+const isFile = async (file) => (await stat(file).catch(() => null))?.isFile() ?? false;
+
+// Unknown paths fall back to index.html so the single-page app handles them
+const serveStatic = async (req, res, pathname) => {
+  let decoded;
+  try {
+    decoded = decodeURIComponent(pathname);
+  } catch {
+    res.writeHead(400, { 'Content-Type': 'text/plain' });
+    res.end('The path is not valid URL encoding.');
+    return;
+  }
+  const requested = path.normalize(path.join(DIST, decoded));
+  const inDist = requested.startsWith(DIST + path.sep);
+  const file = inDist && await isFile(requested) ? requested : path.join(DIST, 'index.html');
+  if (!await isFile(file)) {
+    res.writeHead(503, { 'Content-Type': 'text/plain' });
+    res.end('The app has not been built yet. Run `npm run build` first.');
+    return;
+  }
+  res.writeHead(200, {
+    'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream',
+    // Vite fingerprints everything under assets/, so those can be cached for good
+    'Cache-Control': file.includes(`${path.sep}assets${path.sep}`) ? 'public, max-age=31536000, immutable' : 'no-cache'
+  });
+  res.end(req.method === 'HEAD' ? undefined : await readFile(file));
+};
+
+createServer(async (req, res) => {
+  try {
+    const url = new URL(req.url || '/', 'http://localhost');
+    const { pathname } = url;
+    if (!isAuthorized(req)) {
+      res.writeHead(401, { 'Content-Type': 'text/plain', 'WWW-Authenticate': 'Basic realm="Proposal Architect", charset="UTF-8"' });
+      res.end('Sign in to use this app.');
+    }
+    else if (pathname.startsWith('/api/') && !isSameOrigin(req)) sendJson(res, 403, { error: 'Cross-origin requests are not accepted.' });
+    else if (pathname in API_ROUTES) await handleApi(req, res, pathname);
+    else if (pathname === '/api/usage') {
+      const month = url.searchParams.get('month') || '';
+      if (!/^\d{4}-\d{2}$/.test(month)) sendJson(res, 400, { error: 'Pass the month as YYYY-MM.' });
+      else sendJson(res, 200, usageReport(month));
+    }
+    else if (pathname.startsWith('/api/')) sendJson(res, 404, { error: 'Unknown endpoint.' });
+    else await serveStatic(req, res, pathname);
+  } catch (err) {
+    console.error(err);
+    if (!res.headersSent) sendJson(res, 500, { error: 'Internal server error.' });
+    else res.end();
+  }
+}).listen(PORT, () => {
+  console.log(`Listening on http://localhost:${PORT}${STUB_MODEL ? ' (stub model)' : ''}`);
+});